@@ -1,64 +1,203 @@
 
-import React, { useState, useCallback, useEffect, useRef } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { RetroCamera } from './components/RetroCamera';
 import { PinboardGallery } from './components/PinboardGallery';
-import { PhotoData } from './types';
-import { generatePhotoCaption } from './services/geminiService';
-import { 
-  uploadAndSavePhoto, 
-  useRealtimePhotos,
-  updatePhoto
-} from './services/supabase';
+import { PhotoLightbox } from './components/PhotoLightbox';
+import { FilmStrip } from './components/FilmStrip';
+import { ReviewQueue } from './components/ReviewQueue';
+import { AdminConsole } from './components/AdminConsole';
+import { RoomPicker } from './components/RoomPicker';
+import { CaptionSettingsPanel } from './components/CaptionSettingsPanel';
+import { CaptionSettings, CaptureDetails, PhotoData, PhotoStatus } from './types';
+import { CAPTION_PLACEHOLDER, generateCaptionAlternatives, generatePhotoCaption } from './services/captions';
+import { formatPhotoDate } from './services/captionProvider';
+import { eventNameForRoom, getSavedCaptionSettings, saveCaptionSettings } from './services/captionSettings';
+import { moderateImage } from './services/safetyService';
+import { GalleryBackend, GalleryConnectionState, GallerySubscription, PermissionDeniedError, uploadAndSavePhoto } from './services/galleryBackend';
+import { getGalleryBackend } from './services/gallery';
+import { canEditPhoto } from './services/identity';
+import { DEFAULT_ROOM, getRoomFromUrl, isInRoom, rememberRoom, setRoomInUrl } from './services/room';
+import { getGalleryFiltersFromUrl, hasActiveFilters } from './services/galleryFilters';
+import { getPhotoIdFromUrl, setPhotoIdInUrl } from './services/photoLink';
+import { ProcessedImage, photoImageToDataUrl } from './services/imageProcessing';
+import { OutboxEntry, enqueueUpdate, enqueueUpload, isQueued, outboxEntryToPhoto, startOutbox, subscribeToOutbox } from './services/outbox';
+import { loadLocalOnlyPhotos, saveLocalPhoto, updateLocalPhoto } from './services/localPhotoStore';
+
+// How long destructive admin actions can be undone
+const UNDO_WINDOW_MS = 6000;
+
+interface PendingDeletion {
+  backend: GalleryBackend; // Room the deletion was requested in
+  ids: string[];
+  resetAll: boolean;
+  label: string;
+}
 
 // Helper to generate random numbers within a range
 const randomRange = (min: number, max: number) => Math.random() * (max - min) + min;
 
 const App: React.FC = () => {
+  const [roomId, setRoomId] = useState<string>(getRoomFromUrl); // Event room from /r/<room> or ?room=
   const [galleryPhotos, setGalleryPhotos] = useState<PhotoData[]>([]); // The global gallery
+  const [hasMorePhotos, setHasMorePhotos] = useState(true); // Older pages still on the server
+  const gallerySubscriptionRef = useRef<GallerySubscription | null>(null);
+  const [connectionState, setConnectionState] = useState<GalleryConnectionState>('connecting'); // Live, polling or offline
+  const [privatePhotos, setPrivatePhotos] = useState<PhotoData[]>([]); // Own photos blocked or awaiting review
+  const [authorId, setAuthorId] = useState<string | null>(null); // This device's anonymous identity
+  const [outboxEntries, setOutboxEntries] = useState<OutboxEntry[]>([]); // Uploads/edits not yet synced
+  const [adminPhotos, setAdminPhotos] = useState<PhotoData[]>([]); // Everything, including unapproved (admins only)
   const [isProcessing, setIsProcessing] = useState(false);
-  const [isGalleryOpen, setIsGalleryOpen] = useState(false);
+  const [captionSettings, setCaptionSettings] = useState<CaptionSettings>(getSavedCaptionSettings); // Style + language for new captions
+  // A shared link to a filtered wall opens straight onto the pinboard
+  const [isGalleryOpen, setIsGalleryOpen] = useState(() => hasActiveFilters(getGalleryFiltersFromUrl()));
+  const [isFilmStripOpen, setIsFilmStripOpen] = useState(false); // Live film strip along the bottom of the camera screen
+  const [lightboxPhotoId, setLightboxPhotoId] = useState<string | null>(getPhotoIdFromUrl); // Photo open full screen (?photo=<id>)
+  const [lightboxOrder, setLightboxOrder] = useState<string[] | null>(null); // Ids as shown where it was opened (null: the whole wall)
+  const lightboxPushedRef = useRef(false); // Opened in-app (so Back can close it) rather than from a link
+  const [isAdmin, setIsAdmin] = useState(false);
+  const [isAdminOpen, setIsAdminOpen] = useState(false);
+  const [isReviewOpen, setIsReviewOpen] = useState(false);
+  const [pendingDeletion, setPendingDeletion] = useState<PendingDeletion | null>(null);
+  const pendingDeletionRef = useRef<{ deletion: PendingDeletion; timer: ReturnType<typeof setTimeout> } | null>(null);
   const [showToast, setShowToast] = useState(false);
   const [toastMessage, setToastMessage] = useState({ text: "Saved to Public Gallery!", type: "success" });
   
-  // Ref to hold the refresh function from the service
-  const refreshGalleryRef = useRef<() => Promise<void>>(() => Promise.resolve());
+  // Persistence provider (Supabase, Firebase or local, chosen via GALLERY_BACKEND) for the current room
+  const gallery = useMemo(() => getGalleryBackend(roomId), [roomId]);
+
+  // Follow browser back/forward between rooms (and in/out of the lightbox)
+  useEffect(() => {
+    const handlePopState = () => {
+        setRoomId(getRoomFromUrl());
+        setLightboxPhotoId(getPhotoIdFromUrl());
+        setLightboxOrder(null);
+        lightboxPushedRef.current = false;
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  useEffect(() => {
+    rememberRoom(roomId);
+  }, [roomId]);
+
+  // Photos moderation kept on this device (from earlier visits to this room)
+  useEffect(() => {
+    let cancelled = false;
+    loadLocalOnlyPhotos(roomId).then(photos => {
+      if (cancelled || photos.length === 0) return;
+      setPrivatePhotos(prev => [...prev, ...photos.filter(p => !prev.some(existing => existing.id === p.id))]);
+    });
+    return () => { cancelled = true; };
+  }, [roomId]);
+
+  // Retry failed uploads and edits in the background (also after a reload)
+  useEffect(() => {
+    const stopOutbox = startOutbox();
+    const unsubscribe = subscribeToOutbox(setOutboxEntries);
+    return () => {
+      unsubscribe();
+      stopOutbox();
+    };
+  }, []);
+
+  // Resolve the anonymous author identity once (decides which photos this device may edit)
+  useEffect(() => {
+    gallery.getAuthorId().then(setAuthorId);
+  }, [gallery]);
 
   // Initialize Realtime Subscription
   useEffect(() => {
-    // This hook handles fetching initial data AND listening for new inserts/deletes
-    const { unsubscribe, refresh } = useRealtimePhotos((updatedPhotos) => {
+    // The backend handles fetching initial data AND listening for new inserts/deletes
+    const subscription = gallery.subscribe((updatedPhotos) => {
       setGalleryPhotos(updatedPhotos);
-    });
-    
-    refreshGalleryRef.current = refresh;
-    
-    return () => unsubscribe();
+    }, { onConnectionChange: setConnectionState });
+    gallerySubscriptionRef.current = subscription;
+    setHasMorePhotos(true);
+
+    return () => {
+      gallerySubscriptionRef.current = null;
+      subscription.unsubscribe();
+    };
+  }, [gallery]);
+
+  const handleLoadMore = useCallback(async () => {
+    const subscription = gallerySubscriptionRef.current;
+    if (!subscription) return;
+    const more = await subscription.loadMore();
+    // Ignore results from a room we already left
+    if (gallerySubscriptionRef.current === subscription) setHasMorePhotos(more);
   }, []);
 
+  // Admins get a second subscription that includes pending/hidden/rejected photos
+  useEffect(() => {
+    if (!isAdmin) return;
+    const { unsubscribe } = gallery.subscribe(setAdminPhotos, { includeUnapproved: true });
+    return () => unsubscribe();
+  }, [isAdmin, gallery]);
+
+  // Photos scheduled for deletion disappear right away, but stay restorable until the undo window ends
+  const isPendingDeletion = useCallback((photo: PhotoData) =>
+    !!pendingDeletion && (pendingDeletion.resetAll ? isInRoom(photo, pendingDeletion.backend.roomId) : pendingDeletion.ids.includes(photo.id)),
+  [pendingDeletion]);
+
+  // What this device sees: its own held-back photos on top of the shared gallery.
+  // Once a pending photo is approved the gallery copy takes over.
+  const unsyncedIds = useMemo(() => new Set(outboxEntries.map(entry => entry.photoId)), [outboxEntries]);
+
+  const displayedPhotos = useMemo(() => {
+    const galleryIds = new Set(galleryPhotos.map(p => p.id));
+    const privateIds = new Set(privatePhotos.map(p => p.id));
+    // Photos still waiting in the outbox (e.g. taken offline before a reload)
+    const queuedPhotos = outboxEntries
+      .map(outboxEntryToPhoto)
+      .filter((p): p is PhotoData => !!p && !galleryIds.has(p.id) && !privateIds.has(p.id));
+    return [...privatePhotos.filter(p => !galleryIds.has(p.id)), ...queuedPhotos, ...galleryPhotos]
+      .filter(p => isInRoom(p, roomId) && !isPendingDeletion(p));
+  }, [privatePhotos, outboxEntries, galleryPhotos, isPendingDeletion, roomId]);
+
+  const visibleAdminPhotos = useMemo(() => adminPhotos.filter(p => !isPendingDeletion(p)), [adminPhotos, isPendingDeletion]);
+  const pendingReviewCount = visibleAdminPhotos.filter(p => p.status === 'pending').length;
+
+  // Current versions of the photos the lightbox steps through (captions keep developing while it's open)
+  const lightboxPhotos = useMemo(() => {
+    if (!lightboxOrder) return displayedPhotos;
+    const byId = new Map(displayedPhotos.map(p => [p.id, p]));
+    return lightboxOrder.map(id => byId.get(id)).filter((p): p is PhotoData => !!p);
+  }, [lightboxOrder, displayedPhotos]);
+
   const showNotification = (text: string, type: 'success' | 'error' = 'success') => {
       setToastMessage({ text, type });
       setShowToast(true);
       setTimeout(() => setShowToast(false), 4000);
   };
 
-  const handleTakePhoto = useCallback(async (imageData: string) => {
+  const handleTakePhoto = useCallback(async (image: ProcessedImage, capture: CaptureDetails) => {
     setIsProcessing(true);
+    const { imageData } = image;
 
     try {
       const photoId = crypto.randomUUID();
+      const photoAuthorId = await gallery.getAuthorId();
 
-      // 1. Generate caption using Gemini
-      const aiData = await generatePhotoCaption(imageData);
+      // 1. Moderation: decide whether this photo may reach the public pinboard
+      const verdict = await moderateImage(imageData);
 
-      // 2. Prepare Metadata
+      // 2. Prepare Metadata. The caption develops in the background (blocked photos are never sent anywhere)
       const newPhotoMeta = {
         id: photoId,
-        caption: aiData.caption,
-        date: aiData.date,
+        caption: verdict.status === 'blocked' ? "Only visible to you 🔒" : CAPTION_PLACEHOLDER,
+        date: formatPhotoDate(),
         rotation: randomRange(-12, 12),
         zIndex: 1, // DB default
         x: randomRange(-40, 40), 
         y: randomRange(-40, 40),
+        authorId: photoAuthorId,
+        roomId: gallery.roomId,
+        status: (verdict.status === 'needs-review' ? 'pending' : 'approved') as PhotoStatus,
+        captionStyle: captionSettings.style,
+        captionLanguage: captionSettings.language,
+        ...capture,
       };
 
       // 3. Optimistic Update: Show photo IMMEDIATELY locally
@@ -66,36 +205,217 @@ const App: React.FC = () => {
       const optimisticPhoto: PhotoData = {
         ...newPhotoMeta,
         imageUrl: imageData,
+        thumbnailUrl: image.thumbnailData,
         timestamp: Date.now(),
         zIndex: 10
       };
-      setGalleryPhotos(prev => [optimisticPhoto, ...prev]);
 
-      // Show confirmation toast
-      showNotification("✨ Saved to Public Gallery!", "success");
+      if (verdict.status === 'blocked') {
+        // Keep it on this device only (it survives a reload) and tell the user why
+        const localPhoto = { ...optimisticPhoto, localOnly: true };
+        setPrivatePhotos(prev => [localPhoto, ...prev]);
+        saveLocalPhoto(localPhoto);
+        showNotification(`🚫 Not posted: ${verdict.reason}`, "error");
+        return;
+      }
 
-      // 4. Upload to Storage AND Insert Row to DB
-      // This triggers the realtime event for everyone else. 
-      // If it fails, we log it, but we've already shown the photo locally.
-      try {
-        await uploadAndSavePhoto(imageData, newPhotoMeta);
-      } catch (saveError) {
-        console.error("Background save failed:", saveError);
-        // We don't show an error to the user because local mode works fine
+      if (verdict.status === 'needs-review') {
+        // Uploaded as pending: only the author (and moderators) can see it until approved
+        setPrivatePhotos(prev => [optimisticPhoto, ...prev]);
+        showNotification(`⏳ Waiting for a moderator: ${verdict.reason}`, "error");
+      } else {
+        setGalleryPhotos(prev => [optimisticPhoto, ...prev]);
+        // Show confirmation toast
+        showNotification("✨ Saved to Public Gallery!", "success");
       }
 
+      // 4. Upload to Storage AND Insert Row to DB (in the background, the camera is free again)
+      // This triggers the realtime event for everyone else. 
+      // If it fails, the outbox keeps retrying; we've already shown the photo locally.
+      const saved = uploadAndSavePhoto(gallery, image, newPhotoMeta)
+        .then(() => undefined)
+        .catch(async (saveError) => {
+          console.error("Background save failed, queued for retry:", saveError);
+          await enqueueUpload(image, newPhotoMeta);
+        });
+
+      // 5. Caption arrives later through updatePhoto (and realtime for everyone else)
+      developCaption(photoId, imageData, captionSettings, saved);
+
     } catch (error) {
       console.error("Photo processing error:", error);
       showNotification("Something went wrong. Try again.", "error");
     } finally {
       setIsProcessing(false);
     }
-  }, []);
+  }, [gallery, captionSettings]);
+
+  // Replace the 'Developing magic' placeholder once the caption is ready
+  const developCaption = async (photoId: string, imageData: string, settings: CaptionSettings, saved: Promise<void>) => {
+      const { caption, altText, tags, failed } = await generatePhotoCaption(imageData, settings, eventNameForRoom(gallery.roomId));
+      // An offline stand-in caption is kept but marked, so its author knows a re-roll may do better
+      const updates: Partial<PhotoData> = { caption };
+      if (failed) updates.captionOffline = true;
+      if (altText) updates.altText = altText;
+      if (tags && tags.length > 0) updates.tags = tags;
+      const applyCaption = (prev: PhotoData[]) => prev.map(p => p.id === photoId ? { ...p, ...updates } : p);
+      setGalleryPhotos(applyCaption);
+      setPrivatePhotos(applyCaption);
+
+      // The row must exist (or be queued) before it can be updated
+      try {
+          await saved;
+          await saveOrQueueUpdate(photoId, updates);
+      } catch (e) {
+          console.error("Could not save caption:", e);
+      }
+  };
 
   const handleUpdatePhoto = async (id: string, data: Partial<PhotoData>) => {
+      const photo = displayedPhotos.find(p => p.id === id);
+      if (!photo || !canEditPhoto(photo, authorId)) {
+          showNotification("Only the photographer can edit this photo", "error");
+          return;
+      }
+      const privatePhoto = privatePhotos.find(p => p.id === id);
+      if (privatePhoto) {
+          setPrivatePhotos(prev => prev.map(p => p.id === id ? { ...p, ...data } : p));
+          // Never uploaded, only the on-device copy to update
+          if (privatePhoto.localOnly) {
+              await updateLocalPhoto(id, data);
+              return;
+          }
+      }
       // Optimistic update
       setGalleryPhotos(prev => prev.map(p => p.id === id ? { ...p, ...data } : p));
-      await updatePhoto(id, data);
+      try {
+          await saveOrQueueUpdate(id, data);
+      } catch (e: any) {
+          // Put the server's version back
+          setGalleryPhotos(prev => prev.map(p => p.id === id ? photo : p));
+          showNotification(`Edit not saved: ${e.message || e}`, "error");
+      }
+  };
+
+  // Fresh caption ideas in the style and language the photo was captioned with
+  const handleRerollCaption = async (photo: PhotoData): Promise<string[]> => {
+      const imageData = await photoImageToDataUrl(photo);
+      const settings: CaptionSettings = {
+          style: photo.captionStyle || captionSettings.style,
+          language: photo.captionLanguage || captionSettings.language
+      };
+      return generateCaptionAlternatives(imageData, settings, eventNameForRoom(photo.roomId || DEFAULT_ROOM));
+  };
+
+  // Edits that can't reach the backend right now go to the outbox (and queued photos stay in order)
+  const saveOrQueueUpdate = async (id: string, data: Partial<PhotoData>) => {
+      if (isQueued(id)) {
+          await enqueueUpdate(gallery.roomId, id, data);
+          return;
+      }
+      try {
+          await gallery.updatePhoto(id, data);
+      } catch (e) {
+          // Refused by the server: retrying won't help, the caller reports it
+          if (e instanceof PermissionDeniedError) throw e;
+          console.warn("Update failed, queued for retry:", e);
+          await enqueueUpdate(gallery.roomId, id, data);
+      }
+  };
+
+  const handleSetStatus = async (id: string, status: PhotoStatus) => {
+      const previous = adminPhotos.find(p => p.id === id)?.status;
+      setAdminPhotos(prev => prev.map(p => p.id === id ? { ...p, status } : p));
+      try {
+          await saveOrQueueUpdate(id, { status });
+      } catch (e: any) {
+          setAdminPhotos(prev => prev.map(p => p.id === id ? { ...p, status: previous } : p));
+          showNotification(`Moderation not saved: ${e.message || e}`, "error");
+      }
+  };
+
+  const handleChangeCaptionSettings = (settings: CaptionSettings) => {
+      setCaptionSettings(settings);
+      saveCaptionSettings(settings);
+  };
+
+  const handleOpenPhoto = (photo: PhotoData, order: PhotoData[]) => {
+      setLightboxOrder(order.map(p => p.id));
+      setLightboxPhotoId(photo.id);
+      setPhotoIdInUrl(photo.id, lightboxPushedRef.current ? 'replace' : 'push');
+      lightboxPushedRef.current = true;
+  };
+
+  const handleNavigatePhoto = useCallback((photoId: string) => {
+      setLightboxPhotoId(photoId);
+      setPhotoIdInUrl(photoId);
+  }, []);
+
+  const handleCloseLightbox = useCallback(() => {
+      if (lightboxPushedRef.current) {
+          // Undo our own history entry; the popstate handler clears the photo
+          window.history.back();
+          return;
+      }
+      setLightboxPhotoId(null);
+      setLightboxOrder(null);
+      setPhotoIdInUrl(null);
+  }, []);
+
+  const handleChangeRoom = (nextRoomId: string) => {
+      if (nextRoomId === roomId) return;
+      setRoomInUrl(nextRoomId);
+      setRoomId(nextRoomId);
+  };
+
+  // --- Admin: deferred deletes with an undo window ---
+  const commitDeletion = async (deletion: PendingDeletion) => {
+      try {
+          if (deletion.resetAll) {
+              await deletion.backend.clearAll();
+              setPrivatePhotos(prev => prev.filter(p => !isInRoom(p, deletion.backend.roomId)));
+          } else {
+              await Promise.all(deletion.ids.map(id => deletion.backend.deletePhoto(id)));
+              setPrivatePhotos(prev => prev.filter(p => !deletion.ids.includes(p.id)));
+          }
+      } catch (error: any) {
+          console.error("Admin delete failed:", error);
+          showNotification(`Delete failed: ${error?.message || "check the admin policies"}`, "error");
+      }
+  };
+
+  const scheduleDeletion = (deletion: PendingDeletion) => {
+      // Only one undo slot: an earlier pending deletion is committed right away
+      const previous = pendingDeletionRef.current;
+      if (previous) {
+          clearTimeout(previous.timer);
+          commitDeletion(previous.deletion);
+      }
+
+      const timer = setTimeout(() => {
+          pendingDeletionRef.current = null;
+          setPendingDeletion(null);
+          commitDeletion(deletion);
+      }, UNDO_WINDOW_MS);
+
+      pendingDeletionRef.current = { deletion, timer };
+      setPendingDeletion(deletion);
+  };
+
+  const handleUndoDeletion = () => {
+      const pending = pendingDeletionRef.current;
+      if (!pending) return;
+      clearTimeout(pending.timer);
+      pendingDeletionRef.current = null;
+      setPendingDeletion(null);
+  };
+
+  const handleDeletePhotos = (ids: string[]) => {
+      scheduleDeletion({ backend: gallery, ids, resetAll: false, label: `Deleted ${ids.length} photo${ids.length === 1 ? '' : 's'}` });
+  };
+
+  const handleResetEvent = () => {
+      scheduleDeletion({ backend: gallery, ids: [], resetAll: true, label: "Event reset: all photos removed" });
   };
 
   return (
@@ -111,6 +431,51 @@ const App: React.FC = () => {
              <div className="flex items-center gap-2">
                  <span className="text-2xl">📸</span>
                  <h1 className="font-hand text-2xl font-bold text-gray-700 tracking-widest hidden sm:block">RetroSnap AI</h1>
+                 {/* Room Picker */}
+                 <div className="ml-2">
+                    <RoomPicker roomId={roomId} onChangeRoom={handleChangeRoom} />
+                 </div>
+             </div>
+
+             <div className="flex items-center gap-2">
+                 {/* Caption Style & Language */}
+                 <CaptionSettingsPanel settings={captionSettings} onChange={handleChangeCaptionSettings} />
+
+                 {/* Review Queue Button (admins only) */}
+                 {isAdmin && (
+                     <button
+                        onClick={() => setIsReviewOpen(true)}
+                        className="relative bg-white hover:bg-gray-50 text-[#5d4037] border-2 border-[#8d6e63] px-4 py-1.5 rounded-full font-hand font-bold shadow-sm transition-colors"
+                     >
+                        🛡️ Review
+                        {pendingReviewCount > 0 && (
+                            <span className="absolute -top-2 -right-2 bg-red-500 text-white text-xs font-bold w-5 h-5 rounded-full flex items-center justify-center">
+                                {pendingReviewCount}
+                            </span>
+                        )}
+                     </button>
+                 )}
+
+                 {/* Film Strip Toggle */}
+                 <button
+                    onClick={() => setIsFilmStripOpen(open => !open)}
+                    className={`${isFilmStripOpen ? 'bg-white border-[#8d6e63]' : 'bg-white/60 border-[#d7ccc8]'} hover:bg-white text-[#5d4037] border-2 w-9 h-9 rounded-full flex items-center justify-center shadow-sm transition-colors`}
+                    title={isFilmStripOpen ? "Hide film strip" : "Show film strip"}
+                    aria-label="Toggle film strip"
+                    aria-pressed={isFilmStripOpen}
+                 >
+                    🎞️
+                 </button>
+
+                 {/* Admin Console Button */}
+                 <button
+                    onClick={() => setIsAdminOpen(true)}
+                    className="bg-white/60 hover:bg-white text-[#5d4037] border-2 border-[#d7ccc8] w-9 h-9 rounded-full flex items-center justify-center shadow-sm transition-colors"
+                    title="Admin Console"
+                    aria-label="Admin Console"
+                 >
+                    🔐
+                 </button>
              </div>
         </div>
 
@@ -131,16 +496,16 @@ const App: React.FC = () => {
       {/* View Gallery Button */}
       <button 
         onClick={() => setIsGalleryOpen(true)}
-        className="absolute bottom-12 sm:bottom-10 left-6 z-50 group transition-transform hover:scale-105 active:scale-95"
+        className={`absolute ${isFilmStripOpen ? 'bottom-[236px]' : 'bottom-12 sm:bottom-10'} left-6 z-50 group transition-all hover:scale-105 active:scale-95`}
       >
          <div className="relative bg-[#8d6e63] hover:bg-[#795548] text-[#efebe9] px-5 py-3 rounded-full shadow-[4px_4px_0px_rgba(62,39,35,1)] border-2 border-[#5d4037] flex items-center gap-3 transition-colors">
             <div className="text-xl transform -rotate-12 group-hover:rotate-0 transition-transform text-red-400 drop-shadow-sm">📌</div>
             <span className="font-hand font-bold text-lg tracking-wide">View Public Pinboard Gallery</span>
             
             {/* Live Count Badge */}
-            {galleryPhotos.length > 0 && (
+            {displayedPhotos.length > 0 && (
                 <div className="absolute -top-2 -right-2 bg-red-500 text-white text-xs font-bold w-6 h-6 rounded-full flex items-center justify-center border-2 border-[#e5e5e5] shadow-sm animate-in zoom-in">
-                    {galleryPhotos.length}
+                    {displayedPhotos.length}
                 </div>
             )}
          </div>
@@ -150,11 +515,63 @@ const App: React.FC = () => {
       <PinboardGallery 
         isOpen={isGalleryOpen} 
         onClose={() => setIsGalleryOpen(false)}
-        photos={galleryPhotos}
-        onRefresh={refreshGalleryRef.current}
+        photos={displayedPhotos}
+        onRefresh={gallery.refresh}
         onUpdatePhoto={handleUpdatePhoto}
+        onRerollCaption={handleRerollCaption}
+        onOpenPhoto={handleOpenPhoto}
+        currentAuthorId={authorId}
+        onLoadMore={handleLoadMore}
+        hasMore={hasMorePhotos}
+        connectionState={connectionState}
+        unsyncedIds={unsyncedIds}
+      />
+
+      {/* Film Strip (sits above the gallery button's usual spot, which moves up while it's shown) */}
+      {isFilmStripOpen && (
+        <FilmStrip photos={displayedPhotos} onPhotoClick={(photo) => handleOpenPhoto(photo, displayedPhotos)} />
+      )}
+
+      {/* Photo Detail (grid and film strip entry points, or a ?photo= link) */}
+      <PhotoLightbox
+        photoId={lightboxPhotoId}
+        photos={lightboxPhotos}
+        onNavigate={handleNavigatePhoto}
+        onClose={handleCloseLightbox}
+      />
+
+      {/* Admin Console (gated) */}
+      <AdminConsole
+        isOpen={isAdminOpen}
+        onClose={() => setIsAdminOpen(false)}
+        photos={visibleAdminPhotos}
+        onUnlockChange={setIsAdmin}
+        onOpenReview={() => setIsReviewOpen(true)}
+        onDeletePhotos={handleDeletePhotos}
+        onResetEvent={handleResetEvent}
+      />
+
+      {/* Moderation Review Queue */}
+      <ReviewQueue
+        isOpen={isAdmin && isReviewOpen}
+        onClose={() => setIsReviewOpen(false)}
+        photos={visibleAdminPhotos}
+        onSetStatus={handleSetStatus}
       />
 
+      {/* Undo Bar for admin deletes */}
+      {pendingDeletion && (
+        <div className="fixed bottom-6 left-1/2 transform -translate-x-1/2 z-[210] bg-[#3e2723] text-white px-5 py-3 rounded-full shadow-xl flex items-center gap-4 animate-in slide-in-from-bottom-4 duration-300">
+           <span className="font-hand font-bold text-lg">{pendingDeletion.label}</span>
+           <button
+              onClick={handleUndoDeletion}
+              className="bg-white text-[#3e2723] font-bold text-sm px-3 py-1 rounded-full hover:bg-gray-100"
+           >
+              UNDO
+           </button>
+        </div>
+      )}
+
       {/* Toast Notification */}
       {showToast && (
         <div className={`fixed top-6 left-1/2 transform -translate-x-1/2 z-[200] px-6 py-3 rounded-full shadow-xl animate-in slide-in-from-top-4 duration-300 flex items-center gap-3 border-2
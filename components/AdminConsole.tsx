@@ -0,0 +1,264 @@
+import React, { useState, useEffect } from 'react';
+import { PhotoData } from '../types';
+import { PhotoImage } from './PhotoImage';
+import { hasAdminSession, isPasscodeConfigured, lockAdmin, signInAsAdmin, unlockWithPasscode } from '../services/adminAuth';
+
+interface AdminConsoleProps {
+  isOpen: boolean;
+  onClose: () => void;
+  photos: PhotoData[]; // Every photo, including unapproved ones
+  onUnlockChange: (unlocked: boolean) => void;
+  onOpenReview: () => void;
+  onDeletePhotos: (ids: string[]) => void;
+  onResetEvent: () => void;
+}
+
+type PendingConfirm = { kind: 'delete'; ids: string[] } | { kind: 'reset' };
+
+export const AdminConsole: React.FC<AdminConsoleProps> = ({
+  isOpen, onClose, photos, onUnlockChange, onOpenReview, onDeletePhotos, onResetEvent
+}) => {
+  const [isUnlocked, setIsUnlocked] = useState(false);
+  const [passcode, setPasscode] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [authError, setAuthError] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [confirm, setConfirm] = useState<PendingConfirm | null>(null);
+
+  // Restore an existing admin session (passcode this tab, or admin account)
+  useEffect(() => {
+    hasAdminSession().then((unlocked) => {
+      setIsUnlocked(unlocked);
+      onUnlockChange(unlocked);
+    });
+  }, [onUnlockChange]);
+
+  // Drop selections for photos that no longer exist
+  useEffect(() => {
+    setSelectedIds(prev => new Set(Array.from(prev).filter(id => photos.some(p => p.id === id))));
+  }, [photos]);
+
+  const handleUnlocked = () => {
+    setIsUnlocked(true);
+    setAuthError(null);
+    setPasscode('');
+    setPassword('');
+    onUnlockChange(true);
+  };
+
+  const handlePasscode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await unlockWithPasscode(passcode)) {
+      handleUnlocked();
+    } else {
+      setAuthError("Wrong passcode");
+    }
+  };
+
+  const handleSignIn = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await signInAsAdmin(email, password)) {
+      handleUnlocked();
+    } else {
+      setAuthError("Sign-in failed or account is not an admin");
+    }
+  };
+
+  const handleLock = async () => {
+    await lockAdmin();
+    setIsUnlocked(false);
+    setSelectedIds(new Set());
+    onUnlockChange(false);
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const toggleSelectAll = () => {
+    setSelectedIds(selectedIds.size === photos.length ? new Set() : new Set(photos.map(p => p.id)));
+  };
+
+  const handleConfirm = () => {
+    if (!confirm) return;
+    if (confirm.kind === 'reset') {
+      onResetEvent();
+    } else {
+      onDeletePhotos(confirm.ids);
+    }
+    setSelectedIds(new Set());
+    setConfirm(null);
+  };
+
+  if (!isOpen) return null;
+
+  const pendingCount = photos.filter(p => p.status === 'pending').length;
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center p-0 sm:p-6 lg:p-12 bg-black/60 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="relative w-full h-full bg-[#efebe9] sm:rounded-xl shadow-2xl overflow-hidden flex flex-col sm:border-[8px] border-[#3e2723]">
+
+        {/* Header */}
+        <div className="bg-[#3e2723] p-3 sm:p-4 flex justify-between items-center">
+          <div className="flex items-center gap-2 select-none">
+            <span className="text-xl sm:text-2xl">🔐</span>
+            <h2 className="font-hand text-lg sm:text-2xl text-white font-bold tracking-widest">Admin Console</h2>
+          </div>
+          <div className="flex items-center gap-2">
+            {isUnlocked && (
+              <button
+                onClick={handleLock}
+                className="bg-white/10 hover:bg-white/20 text-white border-2 border-white/30 px-3 py-1 rounded-full font-bold text-xs sm:text-sm transition-colors cursor-pointer"
+              >
+                LOCK
+              </button>
+            )}
+            <button
+              onClick={onClose}
+              className="bg-white/10 hover:bg-white/20 text-white border-2 border-white/30 px-3 py-1 sm:px-4 rounded-full font-bold text-xs sm:text-sm transition-colors cursor-pointer"
+            >
+              CLOSE
+            </button>
+          </div>
+        </div>
+
+        {!isUnlocked ? (
+          /* Gate */
+          <div className="flex-1 flex flex-col items-center justify-center gap-6 p-6">
+            {isPasscodeConfigured() && (
+              <form onSubmit={handlePasscode} className="flex flex-col gap-2 w-full max-w-xs">
+                <label className="font-hand text-[#5d4037] font-bold">Staff passcode</label>
+                <input
+                  type="password"
+                  value={passcode}
+                  onChange={(e) => setPasscode(e.target.value)}
+                  className="px-3 py-2 rounded border-2 border-[#d7ccc8] focus:border-[#8d6e63] focus:outline-none"
+                  autoFocus
+                />
+                <button type="submit" className="bg-[#8d6e63] hover:bg-[#795548] text-white font-bold py-2 rounded">Unlock</button>
+              </form>
+            )}
+
+            <form onSubmit={handleSignIn} className="flex flex-col gap-2 w-full max-w-xs">
+              <label className="font-hand text-[#5d4037] font-bold">{isPasscodeConfigured() ? 'Or sign in as admin' : 'Sign in as admin'}</label>
+              <input
+                type="email"
+                placeholder="Email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                className="px-3 py-2 rounded border-2 border-[#d7ccc8] focus:border-[#8d6e63] focus:outline-none"
+              />
+              <input
+                type="password"
+                placeholder="Password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="px-3 py-2 rounded border-2 border-[#d7ccc8] focus:border-[#8d6e63] focus:outline-none"
+              />
+              <button type="submit" className="bg-[#5d4037] hover:bg-[#4e342e] text-white font-bold py-2 rounded">Sign in</button>
+            </form>
+
+            {authError && <p className="text-red-600 font-bold text-sm">{authError}</p>}
+          </div>
+        ) : (
+          <>
+            {/* Toolbar */}
+            <div className="flex flex-wrap items-center gap-2 px-4 pt-4">
+              <button
+                onClick={onOpenReview}
+                className="font-hand font-bold px-4 py-1 rounded-full border-2 bg-white text-[#5d4037] border-[#8d6e63] hover:bg-gray-50"
+              >
+                🛡️ Review queue ({pendingCount})
+              </button>
+              <button
+                onClick={toggleSelectAll}
+                disabled={photos.length === 0}
+                className="font-hand font-bold px-4 py-1 rounded-full border-2 bg-white text-[#5d4037] border-[#d7ccc8] hover:border-[#8d6e63] disabled:opacity-40"
+              >
+                {selectedIds.size === photos.length && photos.length > 0 ? 'Select none' : 'Select all'}
+              </button>
+              <button
+                onClick={() => setConfirm({ kind: 'delete', ids: Array.from(selectedIds) })}
+                disabled={selectedIds.size === 0}
+                className="font-hand font-bold px-4 py-1 rounded-full border-2 bg-red-500 text-white border-red-700 hover:bg-red-600 disabled:opacity-40"
+              >
+                Delete selected ({selectedIds.size})
+              </button>
+              <button
+                onClick={() => setConfirm({ kind: 'reset' })}
+                className="ml-auto font-hand font-bold px-4 py-1 rounded-full border-2 bg-[#3e2723] text-white border-black hover:bg-black"
+              >
+                ⚠️ Reset event
+              </button>
+            </div>
+
+            {/* Photo list */}
+            <div className="flex-1 overflow-y-auto custom-scrollbar p-4 sm:p-6">
+              {photos.length === 0 ? (
+                <div className="flex flex-col items-center justify-center h-64 opacity-50 text-center">
+                  <span className="text-4xl mb-2">📭</span>
+                  <p className="font-hand text-xl text-[#5d4037]">No photos on the wall</p>
+                </div>
+              ) : (
+                <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-3">
+                  {photos.map(photo => (
+                    <div
+                      key={photo.id}
+                      className={`relative bg-white p-2 shadow-md rounded-[2px] flex flex-col gap-1 border-2 ${selectedIds.has(photo.id) ? 'border-red-500' : 'border-transparent'}`}
+                    >
+                      <label className="absolute top-3 left-3 z-10 bg-white/90 rounded p-0.5 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={selectedIds.has(photo.id)}
+                          onChange={() => toggleSelected(photo.id)}
+                        />
+                      </label>
+                      <div className="w-full aspect-square bg-gray-900 overflow-hidden cursor-pointer" onClick={() => toggleSelected(photo.id)}>
+                        <PhotoImage photo={photo} size="thumbnail" className="w-full h-full object-cover" />
+                      </div>
+                      <p className="font-hand text-gray-800 text-xs truncate text-center">{photo.caption}</p>
+                      {photo.status && photo.status !== 'approved' && (
+                        <p className="text-[10px] uppercase tracking-wider text-center text-amber-700 font-bold">{photo.status}</p>
+                      )}
+                      <button
+                        onClick={() => setConfirm({ kind: 'delete', ids: [photo.id] })}
+                        className="text-xs font-bold py-1 rounded bg-red-50 text-red-700 hover:bg-red-100"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </>
+        )}
+
+        {/* Confirmation */}
+        {confirm && (
+          <div className="absolute inset-0 z-20 bg-black/50 flex items-center justify-center p-4">
+            <div className="bg-white rounded-lg shadow-xl p-6 max-w-sm w-full flex flex-col gap-4">
+              <p className="font-hand text-xl text-[#3e2723] font-bold">
+                {confirm.kind === 'reset'
+                  ? `Reset the event and remove all ${photos.length} photos?`
+                  : `Delete ${confirm.ids.length} photo${confirm.ids.length === 1 ? '' : 's'}?`}
+              </p>
+              <p className="text-sm text-gray-500">You will have a few seconds to undo.</p>
+              <div className="flex gap-2 justify-end">
+                <button onClick={() => setConfirm(null)} className="px-4 py-2 rounded font-bold text-gray-600 hover:bg-gray-100">Cancel</button>
+                <button onClick={handleConfirm} className="px-4 py-2 rounded font-bold bg-red-500 hover:bg-red-600 text-white">
+                  {confirm.kind === 'reset' ? 'Reset event' : 'Delete'}
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
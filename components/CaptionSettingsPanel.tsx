@@ -0,0 +1,62 @@
+import React, { useState } from 'react';
+import { CaptionLanguage, CaptionSettings } from '../types';
+import { CAPTION_LANGUAGES, CAPTION_LANGUAGE_IDS, CAPTION_STYLES, CAPTION_STYLE_IDS } from '../services/captionSettings';
+
+interface CaptionSettingsPanelProps {
+  settings: CaptionSettings;
+  onChange: (settings: CaptionSettings) => void;
+}
+
+export const CaptionSettingsPanel: React.FC<CaptionSettingsPanelProps> = ({ settings, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const style = CAPTION_STYLES[settings.style];
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="bg-white/60 hover:bg-white text-[#5d4037] border-2 border-[#d7ccc8] px-3 py-1 rounded-full font-hand font-bold text-sm shadow-sm transition-colors flex items-center gap-1"
+        title="Caption style and language"
+        aria-expanded={isOpen}
+      >
+        <span>{style.emoji}</span>
+        <span className="hidden sm:inline">{style.label}</span>
+        <span className="text-xs opacity-70">· {CAPTION_LANGUAGES[settings.language].label}</span>
+        <span className="text-xs opacity-60">▾</span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full right-0 mt-2 w-64 bg-white rounded-lg shadow-xl border-2 border-[#d7ccc8] p-3 z-50 animate-in fade-in duration-150">
+          <p className="font-hand font-bold text-[#5d4037] text-sm mb-2">✍️ Caption style</p>
+          <div className="flex flex-wrap gap-1" role="radiogroup" aria-label="Caption style">
+            {CAPTION_STYLE_IDS.map(id => (
+              <button
+                key={id}
+                onClick={() => onChange({ ...settings, style: id })}
+                role="radio"
+                aria-checked={settings.style === id}
+                className={`px-2 py-0.5 rounded-full font-hand text-sm font-bold border-2 transition-colors
+                  ${settings.style === id ? 'bg-[#8d6e63] text-white border-[#5d4037]' : 'bg-white text-[#5d4037] border-[#d7ccc8] hover:bg-[#efebe9]'}
+                `}
+              >
+                {CAPTION_STYLES[id].emoji} {CAPTION_STYLES[id].label}
+              </button>
+            ))}
+          </div>
+
+          <label className="block font-hand font-bold text-[#5d4037] text-sm mt-3 mb-1" htmlFor="caption-language">🌐 Language</label>
+          <select
+            id="caption-language"
+            value={settings.language}
+            onChange={(e) => onChange({ ...settings, language: e.target.value as CaptionLanguage })}
+            className="w-full px-2 py-1 text-sm rounded border border-[#d7ccc8] focus:border-[#8d6e63] focus:outline-none bg-white"
+          >
+            {CAPTION_LANGUAGE_IDS.map(id => (
+              <option key={id} value={id}>{CAPTION_LANGUAGES[id].label}</option>
+            ))}
+          </select>
+        </div>
+      )}
+    </div>
+  );
+};
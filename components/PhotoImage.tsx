@@ -0,0 +1,32 @@
+import React, { useState, useEffect } from 'react';
+import { PhotoData } from '../types';
+
+interface PhotoImageProps {
+  photo: PhotoData;
+  className?: string;
+  // Small tiles use the thumbnail when the photo has one
+  size?: 'full' | 'thumbnail';
+}
+
+/**
+ * Renders a photo from its URL, or from locally stored bytes via an object URL (revoked on unmount)
+ */
+export const PhotoImage: React.FC<PhotoImageProps> = ({ photo, className, size = 'full' }) => {
+  const [objectUrl, setObjectUrl] = useState<string | null>(null);
+  const thumbnailUrl = size === 'thumbnail' ? photo.thumbnailUrl : undefined;
+
+  useEffect(() => {
+    if (!photo.imageBlob || thumbnailUrl) {
+      setObjectUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(photo.imageBlob);
+    setObjectUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [photo.imageBlob, thumbnailUrl]);
+
+  const src = thumbnailUrl || (photo.imageBlob ? objectUrl : photo.imageUrl);
+  if (!src) return <div className={className} />;
+
+  return <img src={src} alt={photo.altText || photo.caption} className={className} />;
+};
@@ -0,0 +1,139 @@
+import React, { useEffect, useRef } from 'react';
+import { PhotoData } from '../types';
+import { PhotoImage } from './PhotoImage';
+import { CAPTION_FAILED, getCaptionState } from '../services/captions';
+
+interface PhotoLightboxProps {
+  photoId: string | null; // Open when set
+  photos: PhotoData[]; // Navigation order (as shown where the lightbox was opened)
+  onNavigate: (photoId: string) => void;
+  onClose: () => void;
+}
+
+// Horizontal distance (px) a touch has to travel to count as a swipe
+const SWIPE_THRESHOLD = 50;
+
+export const PhotoLightbox: React.FC<PhotoLightboxProps> = ({ photoId, photos, onNavigate, onClose }) => {
+  const touchStart = useRef<{ x: number; y: number } | null>(null);
+
+  const index = photoId ? photos.findIndex(p => p.id === photoId) : -1;
+  const photo = index >= 0 ? photos[index] : null;
+  const previous = index > 0 ? photos[index - 1] : null;
+  const next = index >= 0 && index < photos.length - 1 ? photos[index + 1] : null;
+
+  // Keyboard: arrows to move, Escape to close
+  useEffect(() => {
+    if (!photoId) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+      else if (e.key === 'ArrowLeft' && previous) onNavigate(previous.id);
+      else if (e.key === 'ArrowRight' && next) onNavigate(next.id);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [photoId, previous, next, onNavigate, onClose]);
+
+  const handleTouchStart = (e: React.TouchEvent) => {
+    touchStart.current = { x: e.touches[0].clientX, y: e.touches[0].clientY };
+  };
+
+  const handleTouchEnd = (e: React.TouchEvent) => {
+    if (!touchStart.current) return;
+    const dx = e.changedTouches[0].clientX - touchStart.current.x;
+    const dy = e.changedTouches[0].clientY - touchStart.current.y;
+    touchStart.current = null;
+    // Mostly-vertical drags are scrolls, not swipes
+    if (Math.abs(dx) < SWIPE_THRESHOLD || Math.abs(dx) < Math.abs(dy)) return;
+    if (dx > 0 && previous) onNavigate(previous.id);
+    else if (dx < 0 && next) onNavigate(next.id);
+  };
+
+  if (!photoId) return null;
+
+  const captionState = photo ? getCaptionState(photo) : 'ready';
+  const timeString = photo ? new Date(photo.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }) : '';
+
+  return (
+    <div
+      className="fixed inset-0 z-[120] flex items-center justify-center bg-black/85 backdrop-blur-sm animate-in fade-in duration-200"
+      onClick={onClose}
+      onTouchStart={handleTouchStart}
+      onTouchEnd={handleTouchEnd}
+      role="dialog"
+      aria-modal="true"
+      aria-label="Photo detail"
+    >
+      {/* Top bar */}
+      <div className="absolute top-0 left-0 w-full flex justify-between items-center p-3 sm:p-4 z-10" onClick={(e) => e.stopPropagation()}>
+        <span className="font-hand text-white/70 text-sm tracking-widest">
+          {photo ? `${index + 1} / ${photos.length}` : ''}
+        </span>
+        <button
+          onClick={onClose}
+          className="bg-white/10 hover:bg-white/20 text-white border-2 border-white/30 px-3 py-1 sm:px-4 rounded-full font-bold text-xs sm:text-sm transition-colors cursor-pointer"
+        >
+          CLOSE
+        </button>
+      </div>
+
+      {!photo ? (
+        // Deep link to a photo that isn't loaded (older page) or was removed
+        <div className="flex flex-col items-center text-center px-6" onClick={(e) => e.stopPropagation()}>
+          <span className="text-4xl mb-3">🕵️</span>
+          <p className="font-hand text-2xl text-white">This photo isn't on the wall (yet)</p>
+          <p className="font-hand text-lg text-white/60 mt-1">It may still be loading, or it was taken down.</p>
+        </div>
+      ) : (
+        <>
+          {/* Previous / Next */}
+          {previous && (
+            <button
+              onClick={(e) => { e.stopPropagation(); onNavigate(previous.id); }}
+              className="hidden sm:flex absolute left-4 top-1/2 -translate-y-1/2 z-10 bg-white/10 hover:bg-white/20 text-white border-2 border-white/30 w-11 h-11 rounded-full items-center justify-center text-xl transition-colors cursor-pointer"
+              aria-label="Previous photo"
+            >
+              ‹
+            </button>
+          )}
+          {next && (
+            <button
+              onClick={(e) => { e.stopPropagation(); onNavigate(next.id); }}
+              className="hidden sm:flex absolute right-4 top-1/2 -translate-y-1/2 z-10 bg-white/10 hover:bg-white/20 text-white border-2 border-white/30 w-11 h-11 rounded-full items-center justify-center text-xl transition-colors cursor-pointer"
+              aria-label="Next photo"
+            >
+              ›
+            </button>
+          )}
+
+          {/* The polaroid, full resolution */}
+          <div
+            key={photo.id}
+            className="relative bg-white rounded-[2px] shadow-2xl p-3 sm:p-4 pb-6 sm:pb-8 max-w-[92vw] sm:max-w-xl animate-in zoom-in-95 duration-200"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className={`bg-gray-900 overflow-hidden border border-gray-100 ${!photo.filter ? 'filter sepia-[0.3] contrast-[1.1]' : ''}`}>
+              <PhotoImage
+                photo={photo}
+                size="full"
+                className={`block mx-auto object-contain ${photo.layout === 'strip' ? 'max-h-[70vh]' : 'w-full max-h-[62vh]'}`}
+              />
+            </div>
+            <div className="text-center mt-3 sm:mt-4 px-1">
+              <p className={`font-hand text-xl sm:text-2xl leading-tight ${captionState === 'ready' || captionState === 'offline' ? 'text-gray-800' : 'text-gray-400'} ${captionState === 'developing' ? 'animate-pulse' : ''}`}>
+                {captionState === 'failed' ? CAPTION_FAILED : photo.caption}
+              </p>
+              {captionState === 'offline' && (
+                <p className="font-hand text-xs text-gray-400">📴 Captioned offline</p>
+              )}
+              {(photo.bio || photo.authorName) && (
+                <p className="font-hand text-gray-800 text-base sm:text-lg font-bold mt-1">{photo.bio || photo.authorName}</p>
+              )}
+              <p className="font-hand text-gray-500 text-sm">{photo.socialHandle || timeString}</p>
+              <p className="font-hand text-gray-400 tracking-widest text-sm mt-1">{photo.date}</p>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -1,7 +1,18 @@
 
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { PhotoData } from '../types';
 import { Polaroid } from './Polaroid';
+import { canEditPhoto } from '../services/identity';
+import { GalleryConnectionState } from '../services/galleryBackend';
+import { popularTags } from '../services/photoTags';
+import { DEFAULT_GALLERY_FILTERS, GalleryFilters, filterPhotos, getGalleryFiltersFromUrl, hasActiveFilters, photoDates, setGalleryFiltersInUrl } from '../services/galleryFilters';
+
+const CONNECTION_LABELS: Record<GalleryConnectionState, { label: string; dot: string; title: string }> = {
+  connecting: { label: 'Connecting', dot: 'bg-yellow-300 animate-pulse', title: 'Connecting to the live wall...' },
+  live: { label: 'Live', dot: 'bg-green-400', title: 'New photos appear instantly' },
+  polling: { label: 'Syncing', dot: 'bg-amber-400 animate-pulse', title: 'Live updates unavailable, checking for new photos periodically' },
+  offline: { label: 'Offline', dot: 'bg-gray-400', title: 'No connection, showing saved photos' }
+};
 
 interface PinboardGalleryProps {
   isOpen: boolean;
@@ -9,15 +20,26 @@ interface PinboardGalleryProps {
   photos: PhotoData[];
   onRefresh?: () => Promise<void>;
   onUpdatePhoto?: (id: string, data: Partial<PhotoData>) => void;
+  onRerollCaption?: (photo: PhotoData) => Promise<string[]>;
+  onOpenPhoto?: (photo: PhotoData, photos: PhotoData[]) => void; // Lightbox, navigating through the photos as shown
+  currentAuthorId?: string | null; // Photos by this author are editable
+  onLoadMore?: () => Promise<void>; // Load the next page of older photos
+  hasMore?: boolean;
+  connectionState?: GalleryConnectionState;
+  unsyncedIds?: Set<string>; // Photos still waiting in the upload outbox
 }
 
-export const PinboardGallery: React.FC<PinboardGalleryProps> = ({ isOpen, onClose, photos, onRefresh, onUpdatePhoto }) => {
+export const PinboardGallery: React.FC<PinboardGalleryProps> = ({ isOpen, onClose, photos, onRefresh, onUpdatePhoto, onRerollCaption, onOpenPhoto, currentAuthorId = null, onLoadMore, hasMore = false, connectionState, unsyncedIds }) => {
   // Pull to refresh state
   const [pullY, setPullY] = useState(0);
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [filters, setFilters] = useState<GalleryFilters>(getGalleryFiltersFromUrl);
   
   const startY = useRef(0);
   const scrollContainerRef = useRef<HTMLDivElement>(null);
+  const loadMoreSentinelRef = useRef<HTMLDivElement>(null);
+  const isLoadingMoreRef = useRef(false);
   
   // Reset scroll position when opening
   useEffect(() => {
@@ -27,6 +49,42 @@ export const PinboardGallery: React.FC<PinboardGalleryProps> = ({ isOpen, onClos
     }
   }, [isOpen]);
 
+  const tags = useMemo(() => popularTags(photos), [photos]);
+  const dates = useMemo(() => photoDates(photos), [photos]);
+  const visiblePhotos = useMemo(() => filterPhotos(photos, filters), [photos, filters]);
+  const isFiltered = hasActiveFilters(filters);
+  const selectedTag = filters.tag;
+
+  const updateFilters = (changes: Partial<GalleryFilters>) => setFilters(prev => ({ ...prev, ...changes }));
+  const clearFilters = () => setFilters(DEFAULT_GALLERY_FILTERS);
+
+  // Shareable link to the filtered wall while it's open; a closed wall leaves the URL clean
+  useEffect(() => {
+    setGalleryFiltersInUrl(isOpen ? filters : DEFAULT_GALLERY_FILTERS);
+  }, [isOpen, filters]);
+
+  // Infinite scroll: load older photos when the bottom sentinel scrolls into view
+  useEffect(() => {
+    if (!isOpen || !hasMore || !onLoadMore) return;
+    const sentinel = loadMoreSentinelRef.current;
+    if (!sentinel) return;
+
+    const observer = new IntersectionObserver(async (entries) => {
+      if (!entries[0].isIntersecting || isLoadingMoreRef.current) return;
+      isLoadingMoreRef.current = true;
+      setIsLoadingMore(true);
+      try {
+        await onLoadMore();
+      } finally {
+        isLoadingMoreRef.current = false;
+        setIsLoadingMore(false);
+      }
+    }, { root: scrollContainerRef.current, rootMargin: '400px 0px' });
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [isOpen, hasMore, onLoadMore, photos.length]);
+
   const handleTouchStart = (e: React.TouchEvent) => {
     // Only enable pull if we are at the top of the scroll container
     if (scrollContainerRef.current && scrollContainerRef.current.scrollTop === 0) {
@@ -89,6 +147,15 @@ export const PinboardGallery: React.FC<PinboardGalleryProps> = ({ isOpen, onClos
           <div className="flex items-center gap-2 select-none">
             <span className="text-xl sm:text-2xl">📌</span>
             <h2 className="font-hand text-lg sm:text-2xl text-white font-bold tracking-widest drop-shadow-md">Public Pinboard</h2>
+            {connectionState && (
+                <span
+                    className="flex items-center gap-1 bg-black/20 text-white/90 text-[10px] sm:text-xs font-bold uppercase tracking-wider px-2 py-0.5 rounded-full"
+                    title={CONNECTION_LABELS[connectionState].title}
+                >
+                    <span className={`w-2 h-2 rounded-full ${CONNECTION_LABELS[connectionState].dot}`}></span>
+                    {CONNECTION_LABELS[connectionState].label}
+                </span>
+            )}
           </div>
           <div className="flex items-center gap-2">
              
@@ -113,6 +180,83 @@ export const PinboardGallery: React.FC<PinboardGalleryProps> = ({ isOpen, onClos
           </div>
         </div>
 
+        {/* Search & Filter Bar */}
+        <div className="relative z-10 bg-[#8d6e63] px-3 py-2 flex flex-wrap items-center gap-2 text-xs border-b border-[#5d4037]/40">
+          <input
+            type="search"
+            value={filters.query}
+            onChange={(e) => updateFilters({ query: e.target.value })}
+            placeholder="🔍 Search captions, bios, @handles..."
+            aria-label="Search photos"
+            maxLength={100}
+            className="flex-1 min-w-[10rem] bg-[#efebe9] text-[#5d4037] placeholder-[#8d6e63] rounded-full px-3 py-1 outline-none focus:ring-2 focus:ring-[#d7ccc8]"
+          />
+          <select
+            value={filters.date}
+            onChange={(e) => updateFilters({ date: e.target.value })}
+            aria-label="Filter by date"
+            className="bg-[#efebe9] text-[#5d4037] rounded-full px-2 py-1 outline-none cursor-pointer"
+          >
+            <option value="">Any day</option>
+            {/* Keep a date from a shared link selectable even before its photos have loaded */}
+            {(filters.date && !dates.includes(filters.date) ? [filters.date, ...dates] : dates).map(date => (
+              <option key={date} value={date}>{date}</option>
+            ))}
+          </select>
+          <div className="flex items-center gap-1 text-white/90">
+            <input
+              type="time"
+              value={filters.from}
+              onChange={(e) => updateFilters({ from: e.target.value })}
+              aria-label="Taken after"
+              className="bg-[#efebe9] text-[#5d4037] rounded-full px-2 py-0.5 outline-none"
+            />
+            <span aria-hidden="true">–</span>
+            <input
+              type="time"
+              value={filters.to}
+              onChange={(e) => updateFilters({ to: e.target.value })}
+              aria-label="Taken before"
+              className="bg-[#efebe9] text-[#5d4037] rounded-full px-2 py-0.5 outline-none"
+            />
+          </div>
+          <select
+            value={filters.sort}
+            onChange={(e) => updateFilters({ sort: e.target.value === 'oldest' ? 'oldest' : 'newest' })}
+            aria-label="Sort photos"
+            className="bg-[#efebe9] text-[#5d4037] rounded-full px-2 py-1 outline-none cursor-pointer"
+          >
+            <option value="newest">Newest first</option>
+            <option value="oldest">Oldest first</option>
+          </select>
+          {isFiltered && (
+            <button
+              onClick={clearFilters}
+              className="bg-white/10 hover:bg-white/20 text-white border border-white/30 rounded-full px-3 py-0.5 font-bold transition-colors cursor-pointer"
+            >
+              Clear ✕
+            </button>
+          )}
+        </div>
+
+        {/* Tag filter chips */}
+        {(tags.length > 0 || selectedTag) && (
+          <div className="relative z-10 bg-[#8d6e63]/90 px-3 py-2 flex gap-2 overflow-x-auto custom-scrollbar shadow-inner" role="toolbar" aria-label="Filter by tag">
+            {(selectedTag && !tags.includes(selectedTag) ? [selectedTag, ...tags] : tags).map(tag => (
+              <button
+                key={tag}
+                onClick={() => updateFilters({ tag: selectedTag === tag ? '' : tag })}
+                aria-pressed={selectedTag === tag}
+                className={`shrink-0 px-3 py-0.5 rounded-full text-xs font-bold border transition-colors cursor-pointer ${
+                  selectedTag === tag ? 'bg-[#efebe9] text-[#5d4037] border-[#efebe9]' : 'bg-white/10 text-white border-white/30 hover:bg-white/20'
+                }`}
+              >
+                #{tag}
+              </button>
+            ))}
+          </div>
+        )}
+
         {/* Scrollable Area with Pull to Refresh */}
         <div 
             ref={scrollContainerRef}
@@ -141,7 +285,12 @@ export const PinboardGallery: React.FC<PinboardGalleryProps> = ({ isOpen, onClos
               className="p-4 sm:p-8 min-h-full pb-32 transition-transform duration-300 ease-out"
               style={{ transform: `translateY(${pullY}px)` }}
            >
-              {photos.length === 0 ? (
+              {photos.length > 0 && visiblePhotos.length === 0 ? (
+                 <div className="flex flex-col items-center justify-center h-64 opacity-50 mt-10 text-center px-4">
+                    <p className="font-hand text-xl sm:text-3xl text-[#5d4037]">No photos match...</p>
+                    <button onClick={clearFilters} className="font-hand text-lg text-[#5d4037] mt-2 underline cursor-pointer">Show all photos</button>
+                 </div>
+              ) : photos.length === 0 ? (
                  <div className="flex flex-col items-center justify-center h-64 opacity-50 mt-10 text-center px-4">
                     <div className="w-20 h-20 rounded-full bg-black/10 mb-4 flex items-center justify-center">
                         <span className="text-4xl">📷</span>
@@ -150,8 +299,9 @@ export const PinboardGallery: React.FC<PinboardGalleryProps> = ({ isOpen, onClos
                     <p className="font-hand text-lg text-[#5d4037] mt-2">Snap a photo to leave your mark!</p>
                  </div>
               ) : (
+                // Newest first by default, so realtime inserts land at the top and older pages append below
                 <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-3 sm:gap-8">
-                    {photos.slice().reverse().map((photo) => (
+                    {visiblePhotos.map((photo) => (
                     <div key={photo.id} className="relative pt-3 hover:z-50 transition-all duration-200 group/pin flex justify-center">
                         {/* Pin graphic - Scaled for mobile */}
                         <div className="absolute top-1.5 left-1/2 transform -translate-x-1/2 z-20 w-3 h-3 rounded-full bg-red-500 shadow-[2px_2px_4px_rgba(0,0,0,0.4)] border border-red-700 flex items-center justify-center pointer-events-none">
@@ -163,13 +313,28 @@ export const PinboardGallery: React.FC<PinboardGalleryProps> = ({ isOpen, onClos
                             <Polaroid 
                                 photo={photo} 
                                 variant="grid" 
-                                onUpdate={onUpdatePhoto}
+                                onClick={onOpenPhoto ? () => onOpenPhoto(photo, visiblePhotos) : undefined}
+                                onUpdate={canEditPhoto(photo, currentAuthorId) ? onUpdatePhoto : undefined}
+                                isUnsynced={!!unsyncedIds?.has(photo.id)}
+                                // Photos kept on this device were never sent anywhere, so they aren't re-captioned either
+                                onRerollCaption={canEditPhoto(photo, currentAuthorId) && !photo.localOnly ? onRerollCaption : undefined}
                             />
                         </div>
                     </div>
                     ))}
                 </div>
               )}
+
+              {/* Infinite Scroll Sentinel (older photos) */}
+              {photos.length > 0 && (
+                 <div ref={loadMoreSentinelRef} className="flex justify-center py-6">
+                    {isLoadingMore ? (
+                       <span className="font-hand text-lg text-[#5d4037] animate-pulse">Developing older photos... 🎞️</span>
+                    ) : !hasMore ? (
+                       <span className="font-hand text-sm text-[#5d4037]/60">That's the whole wall ✨</span>
+                    ) : null}
+                 </div>
+              )}
            </div>
         </div>
 
@@ -1,18 +1,38 @@
 
 import React, { useState, useEffect } from 'react';
 import { PhotoData } from '../types';
+import { PhotoImage } from './PhotoImage';
+import { CAPTION_FAILED, getCaptionState } from '../services/captions';
 
 interface PolaroidProps {
   photo: PhotoData;
-  onClick?: () => void;
+  onClick?: () => void; // In the grid only the photo itself is clickable (the footer holds inputs)
   variant?: 'scattered' | 'grid' | 'filmstrip';
-  onUpdate?: (id: string, data: Partial<PhotoData>) => void;
+  onUpdate?: (id: string, data: Partial<PhotoData>) => void; // Only passed for the photo's author
+  isUnsynced?: boolean; // Upload or edit still waiting in the outbox
+  onRerollCaption?: (photo: PhotoData) => Promise<string[]>; // Fresh caption ideas (author only)
 }
 
-export const Polaroid: React.FC<PolaroidProps> = ({ photo, onClick, variant = 'scattered', onUpdate }) => {
+// Long enough for a haiku
+const MAX_CAPTION_LENGTH = 100;
+
+const OFFLINE_CAPTION_TITLE = "Offline caption: the caption service couldn't be reached";
+
+export const Polaroid: React.FC<PolaroidProps> = ({ photo, onClick, variant = 'scattered', onUpdate, isUnsynced = false, onRerollCaption }) => {
   const isScattered = variant === 'scattered';
   const isFilmstrip = variant === 'filmstrip';
   const isGrid = variant === 'grid';
+  const isEditable = isGrid && !!onUpdate;
+  // Newer photos have their film look baked in; older ones get the CSS approximation
+  const hasLegacyLook = !photo.filter;
+  // Photobooth strips keep their tall shape (the film strip thumbnails stay square)
+  const isStrip = photo.layout === 'strip' && !isFilmstrip;
+
+  const captionState = getCaptionState(photo);
+  const shownCaption = captionState === 'failed' ? CAPTION_FAILED : photo.caption;
+  // Any caption the author picks replaces the offline stand-in
+  const captionUpdate = (text: string): Partial<PhotoData> =>
+    photo.captionOffline ? { caption: text, captionOffline: false } : { caption: text };
 
   // Format time for default social handle (e.g. 12:30 PM)
   const timeString = new Date(photo.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
@@ -20,6 +40,12 @@ export const Polaroid: React.FC<PolaroidProps> = ({ photo, onClick, variant = 's
   // Local state for editable fields
   const [bio, setBio] = useState(photo.bio || photo.date);
   const [socialHandle, setSocialHandle] = useState(photo.socialHandle || timeString);
+  const [caption, setCaption] = useState(shownCaption);
+
+  // Caption re-roll
+  const [captionOptions, setCaptionOptions] = useState<string[] | null>(null);
+  const [isRerolling, setIsRerolling] = useState(false);
+  const [rerollError, setRerollError] = useState<string | null>(null);
 
   // Sync state if prop changes (e.g. real-time update from someone else)
   useEffect(() => {
@@ -27,6 +53,10 @@ export const Polaroid: React.FC<PolaroidProps> = ({ photo, onClick, variant = 's
     setSocialHandle(photo.socialHandle || timeString);
   }, [photo.bio, photo.socialHandle, photo.date, timeString]);
 
+  useEffect(() => {
+    setCaption(shownCaption);
+  }, [shownCaption]);
+
   // Handle Input Changes
   const handleBlur = () => {
      if (onUpdate) {
@@ -40,6 +70,38 @@ export const Polaroid: React.FC<PolaroidProps> = ({ photo, onClick, variant = 's
      }
   };
 
+  const handleCaptionBlur = () => {
+    const trimmed = caption.trim();
+    if (!trimmed) {
+      // An empty caption isn't allowed, put the old one back
+      setCaption(shownCaption);
+      return;
+    }
+    if (onUpdate && trimmed !== shownCaption) onUpdate(photo.id, captionUpdate(trimmed));
+  };
+
+  const handleReroll = async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (!onRerollCaption || isRerolling) return;
+    setIsRerolling(true);
+    setRerollError(null);
+    try {
+      setCaptionOptions(await onRerollCaption(photo));
+    } catch (err) {
+      console.warn("Caption re-roll failed:", err);
+      setRerollError("No new ideas right now, try again");
+    } finally {
+      setIsRerolling(false);
+    }
+  };
+
+  const handlePickCaption = (e: React.MouseEvent, option: string) => {
+    e.stopPropagation();
+    setCaption(option);
+    setCaptionOptions(null);
+    if (onUpdate && option !== photo.caption) onUpdate(photo.id, captionUpdate(option));
+  };
+
   // Inline styles for positioning
   let style = {};
   if (isScattered) {
@@ -71,18 +133,21 @@ export const Polaroid: React.FC<PolaroidProps> = ({ photo, onClick, variant = 's
   }
 
   return (
-    <div onClick={onClick} style={style} className={containerClasses}>
+    <div onClick={isGrid ? undefined : onClick} style={style} className={containerClasses}>
       
       {/* Photo Area */}
-      <div className={`w-full aspect-square bg-gray-900 overflow-hidden border border-gray-100 filter sepia-[0.3] contrast-[1.1] ${isFilmstrip ? 'mb-1' : 'mb-2 sm:mb-4'}`}>
-        <img
-          src={photo.imageUrl}
-          alt={photo.caption}
-          className="w-full h-full object-cover pointer-events-none"
-        />
+      <div
+        onClick={isGrid ? onClick : undefined}
+        className={`w-full ${isStrip ? 'aspect-[1/4]' : 'aspect-square'} bg-gray-900 overflow-hidden border border-gray-100 ${hasLegacyLook ? 'filter sepia-[0.3] contrast-[1.1]' : ''} ${isFilmstrip ? 'mb-1' : 'mb-2 sm:mb-4'} ${isGrid && onClick ? 'cursor-zoom-in' : ''}`}
+      >
+        <PhotoImage photo={photo} size={isScattered ? 'full' : 'thumbnail'} className="w-full h-full object-cover pointer-events-none" />
         {/* Overlay for retro feel */}
-        <div className="absolute inset-0 bg-gradient-to-tr from-orange-900/20 to-blue-900/10 pointer-events-none mix-blend-screen"></div>
-        <div className="absolute inset-0 shadow-[inset_0_0_40px_rgba(0,0,0,0.5)] pointer-events-none opacity-40"></div>
+        {hasLegacyLook && (
+          <>
+            <div className="absolute inset-0 bg-gradient-to-tr from-orange-900/20 to-blue-900/10 pointer-events-none mix-blend-screen"></div>
+            <div className="absolute inset-0 shadow-[inset_0_0_40px_rgba(0,0,0,0.5)] pointer-events-none opacity-40"></div>
+          </>
+        )}
       </div>
 
       {/* Footer Area */}
@@ -91,31 +156,67 @@ export const Polaroid: React.FC<PolaroidProps> = ({ photo, onClick, variant = 's
         {/* Grid Mode: Editable Inputs */}
         {isGrid && (
            <div className="flex flex-col gap-1 w-full px-1">
+              <div className="flex items-center gap-1">
+                <input
+                  type="text"
+                  value={caption}
+                  onChange={(e) => setCaption(e.target.value)}
+                  onBlur={handleCaptionBlur}
+                  readOnly={!isEditable || captionState === 'developing'}
+                  maxLength={MAX_CAPTION_LENGTH}
+                  title={isEditable ? "Edit caption" : caption}
+                  className={`font-hand text-center text-xs sm:text-sm leading-tight bg-transparent ${captionState === 'ready' || captionState === 'offline' ? 'text-gray-600' : 'text-gray-400'} ${captionState === 'developing' ? 'animate-pulse' : ''} border-b border-transparent focus:outline-none truncate flex-1 min-w-0 p-0 m-0 ${isEditable ? 'hover:border-gray-300 focus:border-gray-400' : 'cursor-default'}`}
+                />
+                {captionState === 'offline' && (
+                  <span className="text-[10px] shrink-0 opacity-60" title={OFFLINE_CAPTION_TITLE} aria-label={OFFLINE_CAPTION_TITLE}>📴</span>
+                )}
+                {isEditable && onRerollCaption && (
+                  <button
+                    onClick={handleReroll}
+                    disabled={isRerolling}
+                    className={`text-xs sm:text-sm shrink-0 opacity-60 hover:opacity-100 transition-opacity ${isRerolling ? 'animate-spin' : ''}`}
+                    title="New caption ideas"
+                    aria-label="Re-roll caption"
+                  >
+                    🎲
+                  </button>
+                )}
+              </div>
+              {rerollError && (
+                <p className="font-hand text-[10px] text-red-600 leading-tight">{rerollError}</p>
+              )}
               <input 
                 type="text" 
                 value={bio}
                 onChange={(e) => setBio(e.target.value)}
                 onBlur={handleBlur}
-                placeholder="Your Bio..."
+                readOnly={!isEditable}
+                placeholder={isEditable ? "Your Bio..." : ""}
                 maxLength={25}
-                className="font-hand text-center text-gray-800 text-sm sm:text-base leading-tight font-bold bg-transparent border-b border-transparent hover:border-gray-300 focus:border-gray-400 focus:outline-none placeholder-gray-300 truncate w-full p-0 m-0"
+                title={isEditable ? undefined : "Only the photographer can edit this"}
+                className={`font-hand text-center text-gray-800 text-sm sm:text-base leading-tight font-bold bg-transparent border-b border-transparent focus:outline-none placeholder-gray-300 truncate w-full p-0 m-0 ${isEditable ? 'hover:border-gray-300 focus:border-gray-400' : 'cursor-default'}`}
               />
               <input 
                 type="text"
                 value={socialHandle}
                 onChange={(e) => setSocialHandle(e.target.value)}
                 onBlur={handleBlur}
+                readOnly={!isEditable}
                 placeholder={timeString}
                 maxLength={20}
-                className="font-hand text-center text-gray-500 text-[10px] sm:text-xs leading-tight bg-transparent border-b border-transparent hover:border-gray-300 focus:border-gray-400 focus:outline-none placeholder-gray-300 truncate w-full p-0 m-0"
+                title={isEditable ? undefined : "Only the photographer can edit this"}
+                className={`font-hand text-center text-gray-500 text-[10px] sm:text-xs leading-tight bg-transparent border-b border-transparent focus:outline-none placeholder-gray-300 truncate w-full p-0 m-0 ${isEditable ? 'hover:border-gray-300 focus:border-gray-400' : 'cursor-default'}`}
               />
            </div>
         )}
 
         {/* Scattered/Filmstrip Mode: Static Caption */}
         {!isGrid && (
-           <p className={`font-hand text-gray-800 leading-tight truncate px-1 ${isScattered ? 'text-xl mb-1' : 'text-[11px] mb-0 font-bold'} ${photo.caption === 'Developing magic... ✨' ? 'animate-pulse text-gray-400' : ''}`}>
-            {photo.caption}
+           <p className={`font-hand text-gray-800 leading-tight px-1 ${isScattered ? 'text-xl mb-1 line-clamp-3' : 'text-[11px] mb-0 font-bold truncate'} ${captionState === 'developing' ? 'animate-pulse text-gray-400' : ''} ${captionState === 'failed' ? 'text-gray-400' : ''}`}>
+            {shownCaption}
+            {captionState === 'offline' && !isFilmstrip && (
+              <span className="text-xs opacity-60 ml-1" title={OFFLINE_CAPTION_TITLE} aria-label={OFFLINE_CAPTION_TITLE}>📴</span>
+            )}
            </p>
         )}
 
@@ -127,6 +228,44 @@ export const Polaroid: React.FC<PolaroidProps> = ({ photo, onClick, variant = 's
         )}
       </div>
       
+      {/* Caption ideas to pick from */}
+      {captionOptions && (
+        <div className="absolute left-1 right-1 bottom-1 z-20 bg-white rounded shadow-xl border-2 border-[#d7ccc8] p-1.5 flex flex-col gap-1 animate-in fade-in duration-150" onClick={(e) => e.stopPropagation()}>
+          {captionOptions.map(option => (
+            <button
+              key={option}
+              onClick={(e) => handlePickCaption(e, option)}
+              className="font-hand text-xs sm:text-sm text-[#5d4037] text-left hover:bg-[#efebe9] px-1.5 py-0.5 rounded leading-tight"
+            >
+              {option}
+            </button>
+          ))}
+          <button
+            onClick={(e) => { e.stopPropagation(); setCaptionOptions(null); }}
+            className="font-hand text-[10px] text-gray-400 hover:text-gray-600 self-end"
+          >
+            Keep current
+          </button>
+        </div>
+      )}
+
+      {/* Moderation badges (only the author ever sees these) */}
+      {photo.localOnly && !isFilmstrip && (
+        <div className="absolute top-1 right-1 z-10 bg-black/70 text-white text-[9px] sm:text-[10px] font-bold px-1.5 py-0.5 rounded uppercase tracking-wider pointer-events-none">
+          🔒 Only you
+        </div>
+      )}
+      {!photo.localOnly && photo.status === 'pending' && !isFilmstrip && (
+        <div className="absolute top-1 right-1 z-10 bg-amber-500/90 text-white text-[9px] sm:text-[10px] font-bold px-1.5 py-0.5 rounded uppercase tracking-wider pointer-events-none">
+          ⏳ In review
+        </div>
+      )}
+      {isUnsynced && !isFilmstrip && (
+        <div className="absolute top-1 left-1 z-10 bg-sky-600/90 text-white text-[9px] sm:text-[10px] font-bold px-1.5 py-0.5 rounded uppercase tracking-wider pointer-events-none">
+          ☁️ Not synced
+        </div>
+      )}
+
       {/* Texture details */}
       <div className="absolute top-0 left-0 w-full h-full opacity-[0.03] pointer-events-none bg-[url('https://www.transparenttextures.com/patterns/paper.png')]"></div>
     </div>
@@ -1,146 +1,374 @@
 
 import React, { useEffect, useRef, useState } from 'react';
+import { CaptureDetails, FilmFilterId, PhotoLayout } from '../types';
+import { DEFAULT_FILM_FILTER, FILM_FILTERS, FILM_FILTER_IDS, isFilmFilterId, renderFilmFrame } from '../services/filmFilters';
+import { STRIP_FRAME_COUNT, composePhotoStrip } from '../services/photoStrip';
+import { describeCameraError, getSavedCameraId, isUserFacing, listCameras, openCamera, saveCameraId } from '../services/cameraDevices';
+import { ACCEPTED_UPLOAD_TYPES, UnsupportedImageError, importPhotoFile } from '../services/imageImport';
+import { ProcessedImage, processImage } from '../services/imageProcessing';
+
+const FILM_FILTER_KEY = 'retro_snap_film_filter';
+
+// Viewfinder preview resolution (longest edge); shrinks on slow devices to keep the frame rate up
+const PREVIEW_MAX_EDGE = 360;
+const PREVIEW_MIN_EDGE = 160;
+const PREVIEW_FRAME_BUDGET_MS = 33;
+
+// Self-timer choices in seconds (0 = off)
+const TIMER_OPTIONS = [0, 3, 5, 10];
+// Pause between photobooth frames (and before the first one when the timer is off)
+const STRIP_FRAME_DELAY_S = 3;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Last film stock this device picked
+const getSavedFilmFilter = (): FilmFilterId => {
+  try {
+    const saved = localStorage.getItem(FILM_FILTER_KEY);
+    return isFilmFilterId(saved) ? saved : DEFAULT_FILM_FILTER;
+  } catch (e) {
+    return DEFAULT_FILM_FILTER;
+  }
+};
 
 interface RetroCameraProps {
-  onTakePhoto: (imageData: string) => void;
+  onTakePhoto: (image: ProcessedImage, capture: CaptureDetails) => void;
   isProcessing: boolean;
 }
 
 export const RetroCamera: React.FC<RetroCameraProps> = ({ onTakePhoto, isProcessing }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const previewCanvasRef = useRef<HTMLCanvasElement>(null);
+  const previewEdgeRef = useRef(PREVIEW_MAX_EDGE);
   const audioRef = useRef<HTMLAudioElement | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   const [flashActive, setFlashActive] = useState(false);
   const [cameraError, setCameraError] = useState<string | null>(null);
+  const [filmFilter, setFilmFilter] = useState<FilmFilterId>(getSavedFilmFilter);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  // Camera selection
+  const [cameras, setCameras] = useState<MediaDeviceInfo[]>([]);
+  const [requestedCameraId, setRequestedCameraId] = useState<string | null>(getSavedCameraId); // null = default (front)
+  const [activeCameraId, setActiveCameraId] = useState<string | null>(null);
+  const activeCameraIdRef = useRef<string | null>(null);
+  const [cameraAttempt, setCameraAttempt] = useState(0); // Bump to reopen the camera
+  const [isMirrored, setIsMirrored] = useState(true); // Only user-facing cameras are mirrored
+  
+  const [timerSeconds, setTimerSeconds] = useState(0);
+  const [shotMode, setShotMode] = useState<PhotoLayout>('single');
+  const [countdown, setCountdown] = useState<number | null>(null);
+  const [isShooting, setIsShooting] = useState(false); // Countdown or strip in progress
+  const sessionRef = useRef(0); // Bumped to cancel a running countdown
   
   // Animation state
-  const [printingPhoto, setPrintingPhoto] = useState<string | null>(null);
+  const [printingPhoto, setPrintingPhoto] = useState<{ imageData: string; layout: PhotoLayout } | null>(null);
   const [animatePrint, setAnimatePrint] = useState(false);
 
   useEffect(() => {
     // Preload the sound
     audioRef.current = new Audio("https://www.bubbbly.com/assets/retro-camera/polaroid-camera.mp3");
-    
+
+    return () => {
+      // Abandon any countdown still running
+      sessionRef.current++;
+    };
+  }, []);
+
+  // Open the requested camera (re-runs on switch, Retry, or when the device goes away)
+  useEffect(() => {
     let stream: MediaStream | null = null;
+    let cancelled = false;
 
-    const startCamera = async (useExactConstraints = true) => {
-      if (!navigator.mediaDevices || !navigator.mediaDevices.getUserMedia) {
-        setCameraError("Camera API not supported");
-        return;
-      }
+    const handleTrackEnded = () => {
+      // Unplugged or taken by another app: fall back to whatever camera is left
+      if (cancelled) return;
+      console.warn("Camera disconnected, switching to another one");
+      setRequestedCameraId(null);
+      setCameraAttempt(n => n + 1);
+    };
 
+    const startCamera = async () => {
       try {
-        // First try: Ideal constraints (User facing, square-ish)
-        // Second try (Fallback): Any video
-        const constraints = useExactConstraints 
-          ? { video: { facingMode: "user", width: { ideal: 720 }, height: { ideal: 720 } }, audio: false }
-          : { video: true, audio: false };
+        const opened = await openCamera(requestedCameraId);
+        if (cancelled) {
+          opened.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        stream = opened;
+
+        const track = opened.getVideoTracks()[0];
+        track?.addEventListener('ended', handleTrackEnded);
+        activeCameraIdRef.current = track?.getSettings().deviceId || null;
+        setActiveCameraId(activeCameraIdRef.current);
+        setIsMirrored(track ? isUserFacing(track) : true);
 
-        stream = await navigator.mediaDevices.getUserMedia(constraints);
-        
         if (videoRef.current) {
-          videoRef.current.srcObject = stream;
+          videoRef.current.srcObject = opened;
           setCameraError(null);
         }
+
+        // Labels and ids are only available once permission has been granted
+        setCameras(await listCameras());
       } catch (err: any) {
+        if (cancelled) return;
         console.warn("Camera access attempt failed:", err);
-        
-        // If first attempt failed, retry with looser constraints
-        if (useExactConstraints) {
-           console.log("Retrying with loose constraints...");
-           startCamera(false);
-           return;
-        }
-
-        if (err.name === 'NotAllowedError' || err.name === 'PermissionDeniedError') {
-          setCameraError("Camera permission denied");
-        } else if (err.name === 'NotFoundError') {
-          setCameraError("No camera found");
-        } else {
-          setCameraError("Camera access failed");
-        }
+        activeCameraIdRef.current = null;
+        setCameraError(describeCameraError(err));
       }
     };
 
     startCamera();
 
     return () => {
+      cancelled = true;
       if (stream) {
-        stream.getTracks().forEach((track) => track.stop());
+        stream.getTracks().forEach((track) => {
+          track.removeEventListener('ended', handleTrackEnded);
+          track.stop();
+        });
+      }
+    };
+  }, [requestedCameraId, cameraAttempt]);
+
+  // Cameras plugged in or removed while the page is open
+  useEffect(() => {
+    if (!navigator.mediaDevices?.addEventListener) return;
+
+    const handleDeviceChange = async () => {
+      const available = await listCameras();
+      setCameras(available);
+      const activeId = activeCameraIdRef.current;
+      if (!activeId || !available.some(camera => camera.deviceId === activeId)) {
+        // Lost our camera, or had none: try again with whatever is there now
+        setRequestedCameraId(null);
+        setCameraAttempt(n => n + 1);
       }
     };
-    // eslint-disable-next-line react-hooks/exhaustive-deps
+
+    navigator.mediaDevices.addEventListener('devicechange', handleDeviceChange);
+    return () => navigator.mediaDevices.removeEventListener('devicechange', handleDeviceChange);
   }, []);
 
-  const handleShutter = () => {
-    if (isProcessing || !videoRef.current || !canvasRef.current) return;
+  const handleSwitchCamera = () => {
+    if (cameras.length < 2) return;
+    const index = cameras.findIndex(camera => camera.deviceId === activeCameraId);
+    const next = cameras[(index + 1) % cameras.length];
+    saveCameraId(next.deviceId);
+    setRequestedCameraId(next.deviceId);
+  };
+
+  const handleRetryCamera = () => {
+    setCameraError(null);
+    setCameraAttempt(n => n + 1);
+  };
 
-    // Play shutter sound
+  // Live viewfinder: every video frame goes through the same film pipeline as the shutter
+  useEffect(() => {
+    let frameId = 0;
+
+    const drawPreview = () => {
+      const video = videoRef.current;
+      const canvas = previewCanvasRef.current;
+      if (video && canvas && video.readyState >= 2 && video.videoWidth > 0) {
+        const scale = Math.min(1, previewEdgeRef.current / Math.max(video.videoWidth, video.videoHeight));
+        const width = Math.round(video.videoWidth * scale);
+        const height = Math.round(video.videoHeight * scale);
+        if (canvas.width !== width || canvas.height !== height) {
+          canvas.width = width;
+          canvas.height = height;
+        }
+        const context = canvas.getContext('2d', { willReadFrequently: true });
+        if (context) {
+          const started = performance.now();
+          renderFilmFrame(context, video, width, height, filmFilter, isMirrored);
+          if (performance.now() - started > PREVIEW_FRAME_BUDGET_MS) {
+            previewEdgeRef.current = Math.max(PREVIEW_MIN_EDGE, Math.round(previewEdgeRef.current * 0.8));
+          }
+        }
+      }
+      frameId = requestAnimationFrame(drawPreview);
+    };
+
+    frameId = requestAnimationFrame(drawPreview);
+    return () => cancelAnimationFrame(frameId);
+  }, [filmFilter, isMirrored]);
+
+  const handleSelectFilter = (filter: FilmFilterId) => {
+    setFilmFilter(filter);
+    try {
+      localStorage.setItem(FILM_FILTER_KEY, filter);
+    } catch (e) { }
+  };
+
+  // Shutter sound + flash for every frame
+  const playShutterEffects = () => {
     if (audioRef.current) {
         audioRef.current.currentTime = 0;
         audioRef.current.play().catch(err => console.log("Audio play blocked", err));
     }
-
-    // Flash effect
     setFlashActive(true);
     setTimeout(() => setFlashActive(false), 200);
+  };
 
+  // Grab the current frame, mirrored for selfies and with the film look baked into the pixels (so it survives downloads and shares)
+  const captureFrame = (target: HTMLCanvasElement, filter: FilmFilterId) => {
     const video = videoRef.current;
-    const canvas = canvasRef.current;
-    const context = canvas.getContext('2d');
-
-    if (context) {
-      canvas.width = video.videoWidth;
-      canvas.height = video.videoHeight;
-      
-      // Horizontal flip for mirror effect (selfie mode)
-      context.translate(canvas.width, 0);
-      context.scale(-1, 1);
-      
-      context.drawImage(video, 0, 0, canvas.width, canvas.height);
-      
-      // Convert to data URL - USE JPEG COMPRESSION TO REDUCE SIZE FOR SYNC
-      const imageData = canvas.toDataURL('image/jpeg', 0.7);
-      
-      // Trigger Printing Animation
-      setPrintingPhoto(imageData);
-      
-      // Use double requestAnimationFrame to ensure the 'hidden' state renders before applying the transition class
+    const context = target.getContext('2d');
+    if (!video || !context || video.videoWidth === 0) return false;
+    target.width = video.videoWidth;
+    target.height = video.videoHeight;
+    renderFilmFrame(context, video, target.width, target.height, filter, isMirrored);
+    return true;
+  };
+
+  const startPrintAnimation = (imageData: string, layout: PhotoLayout) => {
+    setPrintingPhoto({ imageData, layout });
+    
+    // Use double requestAnimationFrame to ensure the 'hidden' state renders before applying the transition class
+    requestAnimationFrame(() => {
       requestAnimationFrame(() => {
-        requestAnimationFrame(() => {
-           setAnimatePrint(true);
-        });
+         setAnimatePrint(true);
       });
+    });
 
-      // Cleanup animation after it finishes
-      setTimeout(() => {
-        setAnimatePrint(false);
-        setPrintingPhoto(null);
-      }, 2500);
+    // Cleanup animation after it finishes
+    setTimeout(() => {
+      setAnimatePrint(false);
+      setPrintingPhoto(null);
+    }, layout === 'strip' ? 3500 : 2500);
+  };
+
+  // Counts down on the viewfinder; resolves to false if the session was cancelled meanwhile
+  const runCountdown = async (seconds: number, session: number) => {
+    for (let remaining = seconds; remaining > 0; remaining--) {
+      if (sessionRef.current !== session) return false;
+      setCountdown(remaining);
+      await wait(1000);
+    }
+    setCountdown(null);
+    return sessionRef.current === session;
+  };
+
+  const cancelSession = () => {
+    sessionRef.current++;
+    setCountdown(null);
+    setIsShooting(false);
+  };
+
+  const shoot = async () => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const session = ++sessionRef.current;
+    // Settings are locked in for the whole session
+    const filter = filmFilter;
+    const layout = shotMode;
+    setIsShooting(true);
+
+    try {
+      if (layout === 'strip') {
+        const frames: HTMLCanvasElement[] = [];
+        for (let i = 0; i < STRIP_FRAME_COUNT; i++) {
+          const delay = i === 0 ? (timerSeconds || STRIP_FRAME_DELAY_S) : STRIP_FRAME_DELAY_S;
+          if (!await runCountdown(delay, session)) return;
+          const frame = document.createElement('canvas');
+          if (!captureFrame(frame, filter)) return;
+          playShutterEffects();
+          frames.push(frame);
+        }
+        composePhotoStrip(canvas, frames, new Date().toLocaleDateString());
+      } else {
+        if (timerSeconds > 0 && !await runCountdown(timerSeconds, session)) return;
+        if (!captureFrame(canvas, filter)) return;
+        playShutterEffects();
+      }
+
+      // Size-capped master + thumbnail (WebP where supported) to keep sync and storage small
+      const image = processImage(canvas);
+      startPrintAnimation(image.thumbnailData, layout);
 
       // Pass data up to parent
-      onTakePhoto(imageData);
+      onTakePhoto(image, { filter, layout });
+    } finally {
+      if (sessionRef.current === session) {
+        setCountdown(null);
+        setIsShooting(false);
+      }
     }
   };
 
+  const handleShutter = () => {
+    // Pressing again during a countdown cancels it
+    if (isShooting) {
+      cancelSession();
+      return;
+    }
+    if (isProcessing || !videoRef.current || !canvasRef.current) return;
+    shoot();
+  };
+
+  // Gallery upload: another way in when there's no camera (or permission was denied)
+  const handleUploadClick = () => {
+    if (isProcessing || isShooting || isImporting) return;
+    setImportError(null);
+    fileInputRef.current?.click();
+  };
+
+  const handleFileChosen = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so picking the same file again still fires a change
+    e.target.value = '';
+    if (!file) return;
+
+    setIsImporting(true);
+    try {
+      const image = await importPhotoFile(file, filmFilter);
+      startPrintAnimation(image.thumbnailData, 'single');
+      onTakePhoto(image, { filter: filmFilter, layout: 'single' });
+    } catch (err) {
+      console.warn("Photo import failed:", err);
+      setImportError(err instanceof UnsupportedImageError ? err.message : "Couldn't load that photo");
+      setTimeout(() => setImportError(null), 4000);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const cycleTimer = () => {
+    setTimerSeconds(TIMER_OPTIONS[(TIMER_OPTIONS.indexOf(timerSeconds) + 1) % TIMER_OPTIONS.length]);
+  };
+
   return (
     <div className="flex flex-col items-center">
       <div className="relative group select-none w-[320px] sm:w-[360px] mx-auto">
         
         {/* Printed Photo Animation (Ejects from TOP Right) */}
-        {printingPhoto && (
+        {printingPhoto && printingPhoto.layout === 'single' && (
           <div 
               className={`absolute w-[28%] aspect-[3.5/4.2] bg-[#fdfdfd] p-[2%] shadow-md transition-transform duration-[2000ms] cubic-bezier(0.25, 1, 0.5, 1) border border-gray-200
                 ${animatePrint ? '-translate-y-[130%] z-30' : 'translate-y-[10%] z-10'}
               `}
               style={{ top: '12%', left: '70%' }}
           >
-              <div className="w-full h-[85%] bg-black/90 overflow-hidden filter sepia-[0.3] border border-gray-100">
-                  <img src={printingPhoto} className="w-full h-full object-cover opacity-90" alt="Printing..." />
+              <div className="w-full h-[85%] bg-black/90 overflow-hidden border border-gray-100">
+                  <img src={printingPhoto.imageData} className="w-full h-full object-cover opacity-90" alt="Printing..." />
               </div>
           </div>
         )}
+        {/* Photobooth strips are taller and take a little longer to come out */}
+        {printingPhoto && printingPhoto.layout === 'strip' && (
+          <div 
+              className={`absolute w-[14%] aspect-[1/4] bg-[#fdfdfd] shadow-md transition-transform duration-[3000ms] cubic-bezier(0.25, 1, 0.5, 1) border border-gray-200
+                ${animatePrint ? '-translate-y-[85%] z-30' : 'translate-y-[10%] z-10'}
+              `}
+              style={{ top: '12%', left: '75%' }}
+          >
+              <img src={printingPhoto.imageData} className="w-full h-full object-cover opacity-90" alt="Printing strip..." />
+          </div>
+        )}
 
         {/* Camera Body Image - Cream Retro Style */}
         <img 
@@ -152,24 +380,36 @@ export const RetroCamera: React.FC<RetroCameraProps> = ({ onTakePhoto, isProcess
         {/* Viewfinder / Lens Area - Adjusted for specific beige camera asset */}
         <div className="absolute top-[27%] left-[35%] w-[42%] h-[42%] z-30 rounded-full overflow-hidden bg-[#111] shadow-inner border-[6px] border-[#222]">
             <div className="w-full h-full relative rounded-full overflow-hidden">
-                  {/* The Actual Video Feed */}
+                  {/* The Actual Video Feed (source only, kept playing but invisible) */}
                   <video
                     ref={videoRef}
                     autoPlay
                     playsInline
                     muted
-                    className="w-full h-full object-cover transform scale-x-[-1] opacity-90 brightness-110 scale-125"
+                    className="absolute inset-0 w-full h-full object-cover opacity-0 pointer-events-none"
                   />
 
-                  {/* Lens Glare Overlay */}
-                  <div className="absolute inset-0 bg-gradient-to-tr from-blue-500/10 to-purple-500/5 pointer-events-none mix-blend-screen"></div>
+                  {/* Filtered Preview (mirrored for selfie cameras, exactly what the shutter prints) */}
+                  <canvas ref={previewCanvasRef} className="absolute inset-0 w-full h-full object-cover" />
+
+                  {/* Lens Glare (a highlight on the glass, kept subtle so colors stay true) */}
                   <div className="absolute top-1/4 left-1/4 w-1/3 h-1/3 bg-gradient-to-br from-white/30 to-transparent rounded-full blur-md opacity-50"></div>
 
+                  {/* Self-timer Countdown */}
+                  {countdown !== null && (
+                    <div className="absolute inset-0 flex items-center justify-center z-30 pointer-events-none">
+                      <span key={countdown} className="font-hand text-white text-6xl font-bold drop-shadow-[0_2px_6px_rgba(0,0,0,0.8)] animate-in zoom-in duration-300">{countdown}</span>
+                    </div>
+                  )}
+
                   {/* Error Message */}
                   {cameraError && (
                     <div className="absolute inset-0 flex flex-col items-center justify-center bg-black/80 p-2 text-center z-40">
                       <p className="text-white text-[10px] font-bold leading-tight mb-1">{cameraError}</p>
-                      <button onClick={() => window.location.reload()} className="text-[9px] bg-white/20 px-2 py-0.5 rounded text-white hover:bg-white/30">Retry</button>
+                      <div className="flex gap-1">
+                        <button onClick={handleRetryCamera} className="text-[9px] bg-white/20 px-2 py-0.5 rounded text-white hover:bg-white/30">Retry</button>
+                        <button onClick={handleUploadClick} disabled={isProcessing || isImporting} className="text-[9px] bg-white/20 px-2 py-0.5 rounded text-white hover:bg-white/30 disabled:opacity-50">Upload photo</button>
+                      </div>
                     </div>
                   )}
             </div>
@@ -183,8 +423,8 @@ export const RetroCamera: React.FC<RetroCameraProps> = ({ onTakePhoto, isProcess
             group cursor-pointer transition-transform active:scale-95 flex items-center justify-center
             ${isProcessing ? 'cursor-wait' : ''}
           `}
-          title="Snap Photo"
-          aria-label="Take Photo"
+          title={isShooting ? "Cancel" : "Snap Photo"}
+          aria-label={isShooting ? "Cancel countdown" : "Take Photo"}
         >
            {/* Visual styling for the pink button */}
            <div className="w-full h-full rounded-full bg-black/20 shadow-lg flex items-center justify-center border-2 border-white/20">
@@ -202,6 +442,9 @@ export const RetroCamera: React.FC<RetroCameraProps> = ({ onTakePhoto, isProcess
 
         {/* Hidden Canvas for Capture */}
         <canvas ref={canvasRef} className="hidden" />
+
+        {/* Hidden Gallery Picker */}
+        <input ref={fileInputRef} type="file" accept={ACCEPTED_UPLOAD_TYPES} onChange={handleFileChosen} className="hidden" />
         
         {/* Processing Indicator */}
         {isProcessing && (
@@ -210,6 +453,69 @@ export const RetroCamera: React.FC<RetroCameraProps> = ({ onTakePhoto, isProcess
           </div>
         )}
       </div>
+
+      {/* Timer & Photobooth Mode */}
+      <div className="mt-4 flex justify-center gap-2">
+        <button
+          onClick={cycleTimer}
+          disabled={isShooting}
+          className="px-3 py-1 rounded-full font-hand text-sm font-bold border-2 transition-colors shadow-sm bg-white/70 text-[#5d4037] border-[#d7ccc8] hover:bg-white disabled:opacity-50"
+          title="Self-timer"
+        >
+          ⏱️ {timerSeconds > 0 ? `${timerSeconds}s` : 'Off'}
+        </button>
+        <button
+          onClick={() => setShotMode(shotMode === 'strip' ? 'single' : 'strip')}
+          disabled={isShooting}
+          aria-pressed={shotMode === 'strip'}
+          className={`px-3 py-1 rounded-full font-hand text-sm font-bold border-2 transition-colors shadow-sm disabled:opacity-50
+            ${shotMode === 'strip' ? 'bg-[#8d6e63] text-white border-[#5d4037]' : 'bg-white/70 text-[#5d4037] border-[#d7ccc8] hover:bg-white'}
+          `}
+          title={`Photobooth: ${STRIP_FRAME_COUNT} shots in one strip`}
+        >
+          🎞️ Photobooth strip
+        </button>
+        {cameras.length > 1 && (
+          <button
+            onClick={handleSwitchCamera}
+            disabled={isShooting}
+            className="px-3 py-1 rounded-full font-hand text-sm font-bold border-2 transition-colors shadow-sm bg-white/70 text-[#5d4037] border-[#d7ccc8] hover:bg-white disabled:opacity-50"
+            title={cameras.find(camera => camera.deviceId === activeCameraId)?.label || "Switch camera"}
+            aria-label="Switch camera"
+          >
+            🔄 Flip
+          </button>
+        )}
+        <button
+          onClick={handleUploadClick}
+          disabled={isShooting || isProcessing || isImporting}
+          className="px-3 py-1 rounded-full font-hand text-sm font-bold border-2 transition-colors shadow-sm bg-white/70 text-[#5d4037] border-[#d7ccc8] hover:bg-white disabled:opacity-50"
+          title="Upload a photo from your gallery"
+        >
+          {isImporting ? '⏳ Loading...' : '🖼️ Upload'}
+        </button>
+      </div>
+
+      {importError && (
+        <p className="mt-2 font-hand text-sm font-bold text-red-700" role="alert">{importError}</p>
+      )}
+
+      {/* Film Stock Selector */}
+      <div className="mt-2 flex flex-wrap justify-center gap-2 max-w-[360px]" role="radiogroup" aria-label="Film stock">
+        {FILM_FILTER_IDS.map(id => (
+          <button
+            key={id}
+            onClick={() => handleSelectFilter(id)}
+            role="radio"
+            aria-checked={filmFilter === id}
+            className={`px-3 py-1 rounded-full font-hand text-sm font-bold border-2 transition-colors shadow-sm
+              ${filmFilter === id ? 'bg-[#8d6e63] text-white border-[#5d4037]' : 'bg-white/70 text-[#5d4037] border-[#d7ccc8] hover:bg-white'}
+            `}
+          >
+            {FILM_FILTERS[id].emoji} {FILM_FILTERS[id].label}
+          </button>
+        ))}
+      </div>
     </div>
   );
 };
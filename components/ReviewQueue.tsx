@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { PhotoData, PhotoStatus } from '../types';
+import { PhotoImage } from './PhotoImage';
+
+interface ReviewQueueProps {
+  isOpen: boolean;
+  onClose: () => void;
+  photos: PhotoData[]; // Every photo, including unapproved ones
+  onSetStatus: (id: string, status: PhotoStatus) => void;
+}
+
+const TABS: { status: PhotoStatus; label: string }[] = [
+  { status: 'pending', label: 'Pending' },
+  { status: 'hidden', label: 'Hidden' },
+  { status: 'rejected', label: 'Rejected' },
+];
+
+const ACTIONS: { status: PhotoStatus; label: string; className: string }[] = [
+  { status: 'approved', label: 'Approve', className: 'bg-green-600 hover:bg-green-700 text-white' },
+  { status: 'hidden', label: 'Hide', className: 'bg-gray-200 hover:bg-gray-300 text-gray-700' },
+  { status: 'rejected', label: 'Reject', className: 'bg-red-500 hover:bg-red-600 text-white' },
+];
+
+export const ReviewQueue: React.FC<ReviewQueueProps> = ({ isOpen, onClose, photos, onSetStatus }) => {
+  const [activeTab, setActiveTab] = useState<PhotoStatus>('pending');
+
+  if (!isOpen) return null;
+
+  const visible = photos.filter(p => (p.status || 'approved') === activeTab);
+  const countFor = (status: PhotoStatus) => photos.filter(p => p.status === status).length;
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center p-0 sm:p-6 lg:p-12 bg-black/60 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="relative w-full h-full bg-[#efebe9] sm:rounded-xl shadow-2xl overflow-hidden flex flex-col sm:border-[8px] border-[#5d4037]">
+
+        {/* Header */}
+        <div className="bg-[#5d4037] p-3 sm:p-4 flex justify-between items-center">
+          <div className="flex items-center gap-2 select-none">
+            <span className="text-xl sm:text-2xl">🛡️</span>
+            <h2 className="font-hand text-lg sm:text-2xl text-white font-bold tracking-widest">Review Queue</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="bg-white/10 hover:bg-white/20 text-white border-2 border-white/30 px-3 py-1 sm:px-4 rounded-full font-bold text-xs sm:text-sm transition-colors cursor-pointer"
+          >
+            CLOSE
+          </button>
+        </div>
+
+        {/* Tabs */}
+        <div className="flex gap-2 px-4 pt-4">
+          {TABS.map(tab => (
+            <button
+              key={tab.status}
+              onClick={() => setActiveTab(tab.status)}
+              className={`font-hand font-bold px-4 py-1 rounded-full border-2 transition-colors ${activeTab === tab.status ? 'bg-[#8d6e63] text-white border-[#5d4037]' : 'bg-white text-[#5d4037] border-[#d7ccc8] hover:border-[#8d6e63]'}`}
+            >
+              {tab.label} ({countFor(tab.status)})
+            </button>
+          ))}
+        </div>
+
+        {/* List */}
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-4 sm:p-6">
+          {visible.length === 0 ? (
+            <div className="flex flex-col items-center justify-center h-64 opacity-50 text-center">
+              <span className="text-4xl mb-2">✅</span>
+              <p className="font-hand text-xl text-[#5d4037]">Nothing here</p>
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+              {visible.map(photo => (
+                <div key={photo.id} className="bg-white p-2 sm:p-3 shadow-md rounded-[2px] flex flex-col gap-2">
+                  <div className="w-full aspect-square bg-gray-900 overflow-hidden">
+                    <PhotoImage photo={photo} className="w-full h-full object-cover" />
+                  </div>
+                  <p className="font-hand text-gray-800 text-sm truncate text-center">{photo.caption}</p>
+                  <p className="font-hand text-gray-400 text-xs text-center">{new Date(photo.timestamp).toLocaleString()}</p>
+                  <div className="flex gap-1">
+                    {ACTIONS.filter(action => action.status !== activeTab).map(action => (
+                      <button
+                        key={action.status}
+                        onClick={() => onSetStatus(photo.id, action.status)}
+                        className={`flex-1 text-xs font-bold py-1.5 rounded transition-colors ${action.className}`}
+                      >
+                        {action.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import { DEFAULT_ROOM, getRecentRooms, normalizeRoomId } from '../services/room';
+
+interface RoomPickerProps {
+  roomId: string;
+  onChangeRoom: (roomId: string) => void;
+}
+
+export const RoomPicker: React.FC<RoomPickerProps> = ({ roomId, onChangeRoom }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState('');
+
+  const recentRooms = getRecentRooms().filter(r => r !== roomId);
+
+  const joinRoom = (value: string) => {
+    const next = normalizeRoomId(value);
+    if (!next) return;
+    onChangeRoom(next);
+    setDraft('');
+    setIsOpen(false);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    joinRoom(draft);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="bg-white/60 hover:bg-white text-[#5d4037] border-2 border-[#d7ccc8] px-3 py-1 rounded-full font-hand font-bold text-sm shadow-sm transition-colors flex items-center gap-1"
+        title="Switch event room"
+      >
+        <span>🎪</span>
+        <span className="max-w-[120px] truncate">{roomId === DEFAULT_ROOM ? 'Main wall' : roomId}</span>
+        <span className="text-xs opacity-60">▾</span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full left-0 mt-2 w-60 bg-white rounded-lg shadow-xl border-2 border-[#d7ccc8] p-3 z-50 animate-in fade-in duration-150">
+          <form onSubmit={handleSubmit} className="flex gap-1">
+            <input
+              type="text"
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              placeholder="Event code, e.g. priya-wedding"
+              maxLength={40}
+              className="flex-1 min-w-0 px-2 py-1 text-sm rounded border border-[#d7ccc8] focus:border-[#8d6e63] focus:outline-none"
+              autoFocus
+            />
+            <button type="submit" className="bg-[#8d6e63] hover:bg-[#795548] text-white text-sm font-bold px-3 rounded">Join</button>
+          </form>
+
+          <div className="mt-3 flex flex-col gap-1">
+            {roomId !== DEFAULT_ROOM && (
+              <button onClick={() => joinRoom(DEFAULT_ROOM)} className="text-left text-sm font-hand text-[#5d4037] hover:bg-[#efebe9] px-2 py-1 rounded">
+                ← Main wall
+              </button>
+            )}
+            {recentRooms.filter(r => r !== DEFAULT_ROOM).map(room => (
+              <button key={room} onClick={() => joinRoom(room)} className="text-left text-sm font-hand text-[#5d4037] hover:bg-[#efebe9] px-2 py-1 rounded truncate">
+                🎪 {room}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,67 @@
+import { supabaseAdmin } from './supabase';
+
+const ADMIN_SESSION_KEY = 'retro_snap_admin_unlocked';
+
+// Event staff passcode as "salt:sha256hex", hashed at build time (see vite.config.ts).
+// Client-side only: it hides the UI, the admin role in the database policies does the real gating.
+const [passcodeSalt = '', passcodeHash = ''] = (process.env.ADMIN_PASSCODE_HASH || '').split(':');
+
+export const isPasscodeConfigured = () => passcodeHash.length > 0;
+
+const sha256Hex = async (value: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Passcode unlock lasts for the browser tab session
+ */
+export const unlockWithPasscode = async (passcode: string): Promise<boolean> => {
+  if (!isPasscodeConfigured()) return false;
+  if (!crypto.subtle) {
+    // Only available on https (or localhost)
+    console.warn("⚠️ Passcode check needs a secure context (https); sign in as admin instead");
+    return false;
+  }
+  if (await sha256Hex(passcodeSalt + passcode) !== passcodeHash) return false;
+  sessionStorage.setItem(ADMIN_SESSION_KEY, '1');
+  return true;
+};
+
+/**
+ * Signed-in Supabase user whose app_metadata.role is 'admin' (on the separate admin client, the guest session stays)
+ */
+export const signInAsAdmin = async (email: string, password: string): Promise<boolean> => {
+  const { data, error } = await supabaseAdmin.auth.signInWithPassword({ email, password });
+  if (error) {
+    console.warn("Admin sign-in failed:", error.message);
+    return false;
+  }
+  if (data.user?.app_metadata?.role !== 'admin') {
+    console.warn("Signed in, but this account does not have the admin role");
+    await supabaseAdmin.auth.signOut();
+    return false;
+  }
+  sessionStorage.setItem(ADMIN_SESSION_KEY, '1');
+  return true;
+};
+
+export const hasAdminSession = async (): Promise<boolean> => {
+  if (sessionStorage.getItem(ADMIN_SESSION_KEY) === '1') return true;
+  try {
+    const { data } = await supabaseAdmin.auth.getSession();
+    return data.session?.user?.app_metadata?.role === 'admin';
+  } catch (e) {
+    return false;
+  }
+};
+
+export const lockAdmin = async () => {
+  sessionStorage.removeItem(ADMIN_SESSION_KEY);
+  try {
+    const { data } = await supabaseAdmin.auth.getSession();
+    if (data.session?.user?.app_metadata?.role === 'admin') {
+      await supabaseAdmin.auth.signOut();
+    }
+  } catch (e) { }
+};
@@ -0,0 +1,54 @@
+// Exponential backoff with a little jitter so many phones don't hit the server in lockstep
+export const backoffDelay = (attempt: number, baseMs: number, maxMs: number) => {
+  const exponential = Math.min(maxMs, baseMs * Math.pow(2, Math.max(0, attempt)));
+  const jitter = exponential * 0.2 * Math.random();
+  return Math.round(Math.min(maxMs, exponential + jitter));
+};
+
+interface BackoffPollerOptions {
+  // Resolves to true when the poll found something (resets the delay)
+  run: () => Promise<boolean>;
+  baseMs: number;
+  maxMs: number;
+}
+
+/**
+ * Polls with growing delays while nothing changes (or requests fail).
+ * start()/stop() can be called repeatedly.
+ */
+export const createBackoffPoller = ({ run, baseMs, maxMs }: BackoffPollerOptions) => {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let attempt = 0;
+  let running = false;
+  // Bumped on every start/stop, so a loop whose request outlived a stop() doesn't keep going next to the new one
+  let generation = 0;
+
+  const schedule = (loop: number) => {
+    timer = setTimeout(async () => {
+      let changed = false;
+      try {
+        changed = await run();
+      } catch (e) {
+        changed = false;
+      }
+      if (loop !== generation) return;
+      attempt = changed ? 0 : attempt + 1;
+      if (running) schedule(loop);
+    }, backoffDelay(attempt, baseMs, maxMs));
+  };
+
+  return {
+    start: () => {
+      if (running) return;
+      running = true;
+      attempt = 0;
+      schedule(++generation);
+    },
+    stop: () => {
+      running = false;
+      generation++;
+      if (timer) clearTimeout(timer);
+      timer = null;
+    }
+  };
+};
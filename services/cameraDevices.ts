@@ -0,0 +1,81 @@
+// Camera selection: which device to open, whether to mirror it, and friendly errors
+
+const SAVED_CAMERA_KEY = 'retro_snap_camera_device';
+
+export const getSavedCameraId = (): string | null => {
+  try {
+    return localStorage.getItem(SAVED_CAMERA_KEY);
+  } catch (e) {
+    return null;
+  }
+};
+
+export const saveCameraId = (deviceId: string | null) => {
+  try {
+    if (deviceId) localStorage.setItem(SAVED_CAMERA_KEY, deviceId);
+    else localStorage.removeItem(SAVED_CAMERA_KEY);
+  } catch (e) { }
+};
+
+export const listCameras = async (): Promise<MediaDeviceInfo[]> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  try {
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    // Before permission is granted deviceIds are empty and useless for switching
+    return devices.filter(device => device.kind === 'videoinput' && device.deviceId);
+  } catch (e) {
+    return [];
+  }
+};
+
+/**
+ * Selfie cameras are shown (and saved) mirrored; rear cameras must not be.
+ * Laptop/external webcams usually report no facingMode, and they face the user.
+ */
+export const isUserFacing = (track: MediaStreamTrack) => {
+  const facingMode = track.getSettings().facingMode;
+  if (facingMode) return facingMode === 'user';
+  return !/back|rear|environment/i.test(track.label);
+};
+
+const isMissingDevice = (err: any) =>
+  err?.name === 'OverconstrainedError' || err?.name === 'NotFoundError' || err?.name === 'NotReadableError';
+
+/**
+ * Open a specific camera, or the front camera by default.
+ * A remembered device that is gone (unplugged, different phone) falls back to the default.
+ */
+export const openCamera = async (deviceId: string | null): Promise<MediaStream> => {
+  if (!navigator.mediaDevices || !navigator.mediaDevices.getUserMedia) {
+    throw Object.assign(new Error("Camera API not supported"), { name: 'NotSupportedError' });
+  }
+
+  const size = { width: { ideal: 720 }, height: { ideal: 720 } };
+
+  if (deviceId) {
+    try {
+      return await navigator.mediaDevices.getUserMedia({ video: { deviceId: { exact: deviceId }, ...size }, audio: false });
+    } catch (err) {
+      if (!isMissingDevice(err)) throw err;
+      console.warn("Saved camera unavailable, using the default one:", err);
+      saveCameraId(null);
+    }
+  }
+
+  try {
+    // First try: Ideal constraints (User facing, square-ish)
+    return await navigator.mediaDevices.getUserMedia({ video: { facingMode: "user", ...size }, audio: false });
+  } catch (err: any) {
+    if (err?.name === 'NotAllowedError' || err?.name === 'PermissionDeniedError') throw err;
+    // Fallback: Any video
+    console.log("Retrying with loose constraints...");
+    return navigator.mediaDevices.getUserMedia({ video: true, audio: false });
+  }
+};
+
+export const describeCameraError = (err: any) => {
+  if (err?.name === 'NotSupportedError') return "Camera API not supported";
+  if (err?.name === 'NotAllowedError' || err?.name === 'PermissionDeniedError') return "Camera permission denied";
+  if (err?.name === 'NotFoundError') return "No camera found";
+  return "Camera access failed";
+};
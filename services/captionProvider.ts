@@ -0,0 +1,48 @@
+import { CaptionSettings, GeminiResponse } from '../types';
+
+export type CaptionProviderKind = 'gemini' | 'local' | 'mock';
+
+export interface CaptionRequest {
+  image: string; // Data URL (or bare base64) of the photo
+  settings: CaptionSettings;
+  eventName?: string; // For the event-branded style
+  takenAt?: Date; // Defaults to now
+}
+
+/**
+ * Common contract for everything that can write polaroid captions.
+ * Callers go through services/captions.ts, which adds timeouts, retries and the offline fallback.
+ */
+export interface CaptionProvider {
+  kind: CaptionProviderKind;
+  // One caption (and the printed date) for a new photo
+  caption: (request: CaptionRequest) => Promise<GeminiResponse>;
+  // Several different captions to choose from (re-roll)
+  alternatives: (request: CaptionRequest, count: number) => Promise<string[]>;
+}
+
+/**
+ * Provider failure. Non-retryable errors (e.g. an image the provider can't take) skip straight to the fallback.
+ */
+export class CaptionError extends Error {
+  constructor(message: string, readonly retryable: boolean = true) {
+    super(message);
+    this.name = 'CaptionError';
+  }
+}
+
+// Real date in YYYY/MM/DD format, as printed on the polaroid
+export const formatPhotoDate = (now: Date = new Date()) =>
+  `${now.getFullYear()}/${String(now.getMonth() + 1).padStart(2, '0')}/${String(now.getDate()).padStart(2, '0')}`;
+
+/**
+ * Rejects with a retryable CaptionError if the promise takes longer than ms
+ */
+export const withTimeout = <T>(promise: Promise<T>, ms: number, label: string = 'Caption request'): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new CaptionError(`${label} timed out after ${ms}ms`)), ms);
+    promise.then(
+      value => { clearTimeout(timer); resolve(value); },
+      error => { clearTimeout(timer); reject(error); }
+    );
+  });
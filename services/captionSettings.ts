@@ -0,0 +1,114 @@
+import { CaptionLanguage, CaptionSettings, CaptionStyle } from '../types';
+import { DEFAULT_ROOM } from './room';
+
+const CAPTION_SETTINGS_KEY = 'retro_snap_caption_settings';
+
+interface CaptionStylePreset {
+  label: string;
+  emoji: string;
+  instruction: string; // What the caption should be, for the prompt
+}
+
+export const CAPTION_STYLES: Record<CaptionStyle, CaptionStylePreset> = {
+  nostalgic: {
+    label: 'Nostalgic', emoji: '🕰️',
+    instruction: 'a warm, nostalgic caption, like a note on the back of an old photo (max 6 words).'
+  },
+  funny: {
+    label: 'Funny', emoji: '😂',
+    instruction: 'a playful, funny caption with a light joke about what is happening (max 8 words).'
+  },
+  poetic: {
+    label: 'Poetic', emoji: '🌙',
+    instruction: 'one short poetic line with vivid imagery (max 10 words).'
+  },
+  haiku: {
+    label: 'Haiku', emoji: '🍃',
+    instruction: 'a haiku about the scene (three lines of 5, 7 and 5 syllables), lines separated by " / ".'
+  },
+  event: {
+    label: 'Event', emoji: '🎉',
+    instruction: 'a short, upbeat caption that celebrates the event by name (max 8 words).'
+  }
+};
+
+export const CAPTION_STYLE_IDS = Object.keys(CAPTION_STYLES) as CaptionStyle[];
+
+interface CaptionLanguageOption {
+  label: string; // Shown in the picker, in the language itself
+  promptName: string; // Used in the prompt
+}
+
+export const CAPTION_LANGUAGES: Record<CaptionLanguage, CaptionLanguageOption> = {
+  en: { label: 'English', promptName: 'English' },
+  ne: { label: 'नेपाली', promptName: 'Nepali (Devanagari script)' },
+  hi: { label: 'हिन्दी', promptName: 'Hindi (Devanagari script)' },
+  es: { label: 'Español', promptName: 'Spanish' },
+  fr: { label: 'Français', promptName: 'French' },
+  de: { label: 'Deutsch', promptName: 'German' },
+  ja: { label: '日本語', promptName: 'Japanese' },
+  zh: { label: '中文', promptName: 'Simplified Chinese' }
+};
+
+export const CAPTION_LANGUAGE_IDS = Object.keys(CAPTION_LANGUAGES) as CaptionLanguage[];
+
+export const DEFAULT_CAPTION_SETTINGS: CaptionSettings = { style: 'nostalgic', language: 'en' };
+
+const isCaptionStyle = (value: unknown): value is CaptionStyle =>
+  typeof value === 'string' && value in CAPTION_STYLES;
+
+const isCaptionLanguage = (value: unknown): value is CaptionLanguage =>
+  typeof value === 'string' && value in CAPTION_LANGUAGES;
+
+// Last choice on this device (falls back per field, so a bad value doesn't reset the other)
+export const getSavedCaptionSettings = (): CaptionSettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(CAPTION_SETTINGS_KEY) || '{}');
+    return {
+      style: isCaptionStyle(saved.style) ? saved.style : DEFAULT_CAPTION_SETTINGS.style,
+      language: isCaptionLanguage(saved.language) ? saved.language : DEFAULT_CAPTION_SETTINGS.language
+    };
+  } catch (e) {
+    return DEFAULT_CAPTION_SETTINGS;
+  }
+};
+
+export const saveCaptionSettings = (settings: CaptionSettings) => {
+  try {
+    localStorage.setItem(CAPTION_SETTINGS_KEY, JSON.stringify(settings));
+  } catch (e) { }
+};
+
+// Room slugs double as event names: "priya-wedding" -> "priya wedding"
+export const eventNameForRoom = (roomId: string) =>
+  roomId === DEFAULT_ROOM ? '' : roomId.replace(/-+/g, ' ');
+
+const CAMERA_PERSONA = 'You are a retro instant camera that writes handwritten captions on polaroids.';
+
+// Style, event and language part of the prompt, shared by single captions and alternatives
+const describeCaption = (settings: CaptionSettings, eventName: string) => {
+  const style = CAPTION_STYLES[settings.style] || CAPTION_STYLES[DEFAULT_CAPTION_SETTINGS.style];
+  const language = CAPTION_LANGUAGES[settings.language] || CAPTION_LANGUAGES[DEFAULT_CAPTION_SETTINGS.language];
+  const eventHint = settings.style === 'event'
+    ? (eventName ? ` The event is called "${eventName}".` : ' The event has no name, so just celebrate the occasion.')
+    : '';
+  return { instruction: style.instruction, eventHint, language: language.promptName };
+};
+
+/**
+ * Prompt for one caption in the given style and language
+ */
+export const buildCaptionPrompt = (settings: CaptionSettings, date: string, eventName: string = '') => {
+  const { instruction, eventHint, language } = describeCaption(settings, eventName);
+  return `${CAMERA_PERSONA} Analyze this image and write ${instruction}${eventHint} Write the caption in ${language}. The date is ${date}. Return this exact date in the date field. `
+    + `Also return altText: one plain, factual English sentence describing the photo for screen-reader users (who and what is in it, the setting, the mood; no wordplay). `
+    + `And tags: 3 to 5 short lowercase English keywords someone might filter the wall by (e.g. dancing, cake, outdoors).`;
+};
+
+/**
+ * Prompt for several different captions to choose from (re-roll)
+ */
+export const buildCaptionAlternativesPrompt = (settings: CaptionSettings, count: number, eventName: string = '') => {
+  const { instruction, eventHint, language } = describeCaption(settings, eventName);
+  return `${CAMERA_PERSONA} Analyze this image and write ${count} clearly different options, each ${instruction}${eventHint} Write the captions in ${language}.`;
+};
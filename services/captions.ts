@@ -0,0 +1,135 @@
+import { CaptionSettings, GeminiResponse, PhotoData } from '../types';
+import { CaptionError, CaptionProvider, CaptionProviderKind, CaptionRequest, withTimeout } from './captionProvider';
+import { DEFAULT_CAPTION_SETTINGS } from './captionSettings';
+import { createGeminiCaptionProvider, hasGeminiApiKey } from './geminiService';
+import { createLocalCaptionProvider, createMockCaptionProvider } from './localCaptions';
+import { backoffDelay } from './backoff';
+
+const DEFAULT_PROVIDER: CaptionProviderKind = 'gemini';
+
+// Shown while the caption is still being written, and when it never arrives (photographer's device gave up)
+export const CAPTION_PLACEHOLDER = 'Developing magic... ✨';
+export const CAPTION_FAILED = "Caption didn't develop 🌧️";
+// A placeholder this old means the photographer's device gave up (e.g. closed the tab)
+const CAPTION_STALE_MS = 3 * 60 * 1000;
+
+// Per attempt; a capture should never wait long on the network
+const CAPTION_TIMEOUT_MS = 8000;
+const CAPTION_RETRIES = 1;
+const RETRY_BASE_MS = 500;
+const RETRY_MAX_MS = 2000;
+
+// offline: a phrase-bank caption stood in for the configured provider
+export type CaptionState = 'developing' | 'failed' | 'offline' | 'ready';
+
+// failed: the configured provider gave up and caption is the offline phrase that replaced it
+export interface CaptionResult extends GeminiResponse {
+  failed: boolean;
+}
+
+// Whether a photo's caption is still on its way, never arrived, stood in for offline, or done
+export const getCaptionState = (photo: Pick<PhotoData, 'caption' | 'timestamp' | 'captionOffline'>, now: number = Date.now()): CaptionState => {
+  if (photo.caption === CAPTION_FAILED) return 'failed';
+  if (photo.caption !== CAPTION_PLACEHOLDER) return photo.captionOffline ? 'offline' : 'ready';
+  return now - photo.timestamp > CAPTION_STALE_MS ? 'failed' : 'developing';
+};
+
+const resolveProviderKind = (): CaptionProviderKind => {
+  const configured = (process.env.CAPTION_PROVIDER || '').toLowerCase();
+  let kind: CaptionProviderKind = DEFAULT_PROVIDER;
+  if (configured === 'gemini' || configured === 'local' || configured === 'mock') {
+    kind = configured;
+  } else if (configured) {
+    console.warn(`Unknown CAPTION_PROVIDER "${configured}", falling back to ${DEFAULT_PROVIDER}`);
+  }
+  if (kind === 'gemini' && !hasGeminiApiKey()) {
+    console.warn("⚠️ No GEMINI_API_KEY set: using offline captions");
+    return 'local';
+  }
+  return kind;
+};
+
+export const createCaptionProvider = (kind: CaptionProviderKind = resolveProviderKind()): CaptionProvider => {
+  switch (kind) {
+    case 'local':
+      return createLocalCaptionProvider();
+    case 'mock':
+      return createMockCaptionProvider();
+    case 'gemini':
+    default:
+      return createGeminiCaptionProvider();
+  }
+};
+
+let provider: CaptionProvider | null = null;
+const fallbackProvider = createLocalCaptionProvider();
+
+/**
+ * The provider selected by the CAPTION_PROVIDER env var (shared app-wide)
+ */
+export const getCaptionProvider = (): CaptionProvider => {
+  if (!provider) provider = createCaptionProvider();
+  return provider;
+};
+
+// Swap the provider (tests, or a different provider at runtime)
+export const setCaptionProvider = (next: CaptionProvider | null) => {
+  provider = next;
+};
+
+// Each attempt gets its own timeout; only retryable errors are tried again
+const withRetry = async <T>(label: string, attempt: () => Promise<T>): Promise<T> => {
+  for (let i = 0; ; i++) {
+    try {
+      return await withTimeout(attempt(), CAPTION_TIMEOUT_MS, label);
+    } catch (error) {
+      const retryable = !(error instanceof CaptionError) || error.retryable;
+      if (!retryable || i >= CAPTION_RETRIES) throw error;
+      console.warn(`${label} failed, retrying:`, error);
+      await new Promise(resolve => setTimeout(resolve, backoffDelay(i, RETRY_BASE_MS, RETRY_MAX_MS)));
+    }
+  }
+};
+
+const logFailure = (label: string, error: unknown) => {
+  if (error instanceof CaptionError && !error.retryable) console.warn(`⚠️ ${label} skipped: ${error.message}`);
+  else console.error(`${label} failed, using offline captions:`, error);
+};
+
+/**
+ * Caption for a new photo. Never rejects: falls back to the offline phrase bank (flagged with failed, so the
+ * photo can be marked as captioned offline).
+ */
+export const generatePhotoCaption = async (
+  image: string,
+  settings: CaptionSettings = DEFAULT_CAPTION_SETTINGS,
+  eventName?: string
+): Promise<CaptionResult> => {
+  const request: CaptionRequest = { image, settings, eventName, takenAt: new Date() };
+  const active = getCaptionProvider();
+  try {
+    return { ...await withRetry('Caption', () => active.caption(request)), failed: false };
+  } catch (error) {
+    logFailure('Caption', error);
+    return { ...await fallbackProvider.caption(request), failed: true };
+  }
+};
+
+/**
+ * A few different captions for the same photo, for its owner to pick from (offline phrases if the provider fails)
+ */
+export const generateCaptionAlternatives = async (
+  image: string,
+  settings: CaptionSettings = DEFAULT_CAPTION_SETTINGS,
+  eventName?: string,
+  count: number = 3
+): Promise<string[]> => {
+  const request: CaptionRequest = { image, settings, eventName, takenAt: new Date() };
+  const active = getCaptionProvider();
+  try {
+    return await withRetry('Caption ideas', () => active.alternatives(request, count));
+  } catch (error) {
+    logFailure('Caption ideas', error);
+    return fallbackProvider.alternatives(request, count);
+  }
+};
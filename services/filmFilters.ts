@@ -0,0 +1,255 @@
+import { FilmFilterId } from '../types';
+
+/*
+  Canvas film emulation baked into the captured JPEG, so prints keep their look when
+  downloaded or shared. Everything is deterministic (seeded grain), so the same filter
+  always renders the same way.
+*/
+
+interface FilmTone {
+  contrast: number; // 1 = unchanged
+  brightness: number; // -1..1
+  saturation: number; // 0 = black & white
+  sepia: number; // 0..1
+  fade: number; // Lifted blacks, 0..1
+  warmth: number; // -1 (cool) .. 1 (warm)
+  shadowTint: [number, number, number]; // Added to dark tones (split toning)
+  highlightTint: [number, number, number]; // Added to bright tones
+}
+
+interface LightLeak {
+  x: number; // Center, as a fraction of the width
+  y: number; // Center, as a fraction of the height
+  color: string; // rgb triplet, e.g. '255, 120, 40'
+  strength: number; // 0..1
+}
+
+export interface FilmFilter {
+  id: FilmFilterId;
+  label: string;
+  emoji: string;
+  tone: FilmTone | null; // null = leave colors alone
+  grain: number; // 0..1
+  vignette: number; // 0..1
+  lightLeaks: LightLeak[];
+}
+
+const NEUTRAL_TONE: FilmTone = {
+  contrast: 1,
+  brightness: 0,
+  saturation: 1,
+  sepia: 0,
+  fade: 0,
+  warmth: 0,
+  shadowTint: [0, 0, 0],
+  highlightTint: [0, 0, 0]
+};
+
+export const FILM_FILTERS: Record<FilmFilterId, FilmFilter> = {
+  none: { id: 'none', label: 'Digital', emoji: '📱', tone: null, grain: 0, vignette: 0, lightLeaks: [] },
+  // The look the pinboard always had (used to be CSS on top of a plain photo)
+  classic: {
+    id: 'classic', label: 'Classic', emoji: '📷',
+    tone: { ...NEUTRAL_TONE, contrast: 1.1, sepia: 0.3 },
+    grain: 0.08, vignette: 0.3, lightLeaks: []
+  },
+  portra: {
+    id: 'portra', label: 'Portra 400', emoji: '🌅',
+    tone: { ...NEUTRAL_TONE, contrast: 0.95, brightness: 0.03, saturation: 0.9, fade: 0.05, warmth: 0.35, shadowTint: [4, 0, -6], highlightTint: [6, 2, -4] },
+    grain: 0.12, vignette: 0.2, lightLeaks: []
+  },
+  trix: {
+    id: 'trix', label: 'Tri-X B&W', emoji: '🎞️',
+    tone: { ...NEUTRAL_TONE, contrast: 1.35, saturation: 0, fade: 0.03 },
+    grain: 0.3, vignette: 0.35, lightLeaks: []
+  },
+  expired: {
+    id: 'expired', label: 'Expired Polaroid', emoji: '🧪',
+    tone: { ...NEUTRAL_TONE, contrast: 0.85, brightness: 0.05, saturation: 0.7, fade: 0.18, warmth: 0.15, shadowTint: [-8, 6, 14], highlightTint: [14, -2, 4] },
+    grain: 0.18, vignette: 0.45,
+    lightLeaks: [{ x: 1, y: 0.15, color: '255, 110, 40', strength: 0.45 }, { x: 0, y: 0.9, color: '255, 60, 120', strength: 0.2 }]
+  }
+};
+
+export const FILM_FILTER_IDS = Object.keys(FILM_FILTERS) as FilmFilterId[];
+
+export const DEFAULT_FILM_FILTER: FilmFilterId = 'classic';
+
+export const isFilmFilterId = (value: unknown): value is FilmFilterId =>
+  typeof value === 'string' && value in FILM_FILTERS;
+
+// Grain and light leaks are sized relative to this edge, so small previews match full-size captures
+const REFERENCE_EDGE = 720;
+
+const clampByte = (value: number) => value < 0 ? 0 : value > 255 ? 255 : value;
+
+// Per-channel curve: contrast around mid grey, brightness, warmth and faded blacks
+const buildLut = (tone: FilmTone, channelShift: number) => {
+  const lut = new Uint8ClampedArray(256);
+  for (let v = 0; v < 256; v++) {
+    let x = v / 255;
+    x = (x - 0.5) * tone.contrast + 0.5 + tone.brightness + channelShift;
+    x = tone.fade + x * (1 - tone.fade);
+    lut[v] = clampByte(Math.round(x * 255));
+  }
+  return lut;
+};
+
+const lutCache = new Map<FilmFilterId, [Uint8ClampedArray, Uint8ClampedArray, Uint8ClampedArray]>();
+
+const getLuts = (filter: FilmFilter, tone: FilmTone) => {
+  let luts = lutCache.get(filter.id);
+  if (!luts) {
+    const shift = tone.warmth * 0.06;
+    luts = [buildLut(tone, shift), buildLut(tone, shift * 0.25), buildLut(tone, -shift)];
+    lutCache.set(filter.id, luts);
+  }
+  return luts;
+};
+
+const applyTone = (ctx: CanvasRenderingContext2D, width: number, height: number, filter: FilmFilter, tone: FilmTone) => {
+  const image = ctx.getImageData(0, 0, width, height);
+  const data = image.data;
+  const [lutR, lutG, lutB] = getLuts(filter, tone);
+  const { saturation, sepia, shadowTint, highlightTint } = tone;
+
+  for (let i = 0; i < data.length; i += 4) {
+    let r = data[i];
+    let g = data[i + 1];
+    let b = data[i + 2];
+    const lum = 0.299 * r + 0.587 * g + 0.114 * b;
+
+    if (saturation !== 1) {
+      r = lum + (r - lum) * saturation;
+      g = lum + (g - lum) * saturation;
+      b = lum + (b - lum) * saturation;
+    }
+    if (sepia > 0) {
+      const sr = 0.393 * r + 0.769 * g + 0.189 * b;
+      const sg = 0.349 * r + 0.686 * g + 0.168 * b;
+      const sb = 0.272 * r + 0.534 * g + 0.131 * b;
+      r += (sr - r) * sepia;
+      g += (sg - g) * sepia;
+      b += (sb - b) * sepia;
+    }
+    const t = lum / 255;
+    r += shadowTint[0] * (1 - t) + highlightTint[0] * t;
+    g += shadowTint[1] * (1 - t) + highlightTint[1] * t;
+    b += shadowTint[2] * (1 - t) + highlightTint[2] * t;
+
+    data[i] = lutR[clampByte(r | 0)];
+    data[i + 1] = lutG[clampByte(g | 0)];
+    data[i + 2] = lutB[clampByte(b | 0)];
+  }
+  ctx.putImageData(image, 0, 0);
+};
+
+// Small seeded PRNG (mulberry32) so grain is identical on every render
+const seededRandom = (seed: number) => () => {
+  seed |= 0;
+  seed = (seed + 0x6D2B79F5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const GRAIN_TILE = 128;
+let grainTile: HTMLCanvasElement | null = null;
+
+const getGrainTile = () => {
+  if (!grainTile) {
+    grainTile = document.createElement('canvas');
+    grainTile.width = GRAIN_TILE;
+    grainTile.height = GRAIN_TILE;
+    const tileCtx = grainTile.getContext('2d');
+    if (tileCtx) {
+      const noise = tileCtx.createImageData(GRAIN_TILE, GRAIN_TILE);
+      const random = seededRandom(1977);
+      for (let i = 0; i < noise.data.length; i += 4) {
+        const value = 128 + (random() - 0.5) * 255;
+        noise.data[i] = noise.data[i + 1] = noise.data[i + 2] = value;
+        noise.data[i + 3] = 255;
+      }
+      tileCtx.putImageData(noise, 0, 0);
+    }
+  }
+  return grainTile;
+};
+
+const applyGrain = (ctx: CanvasRenderingContext2D, width: number, height: number, amount: number) => {
+  const pattern = ctx.createPattern(getGrainTile(), 'repeat');
+  if (!pattern) return;
+  const scale = Math.max(width, height) / REFERENCE_EDGE;
+  pattern.setTransform(new DOMMatrix().scale(scale, scale));
+  ctx.save();
+  ctx.globalCompositeOperation = 'overlay';
+  ctx.globalAlpha = amount;
+  ctx.fillStyle = pattern;
+  ctx.fillRect(0, 0, width, height);
+  ctx.restore();
+};
+
+const applyLightLeaks = (ctx: CanvasRenderingContext2D, width: number, height: number, leaks: LightLeak[]) => {
+  const radius = Math.max(width, height) * 0.6;
+  ctx.save();
+  ctx.globalCompositeOperation = 'screen';
+  leaks.forEach(leak => {
+    const x = leak.x * width;
+    const y = leak.y * height;
+    const gradient = ctx.createRadialGradient(x, y, 0, x, y, radius);
+    gradient.addColorStop(0, `rgba(${leak.color}, ${leak.strength})`);
+    gradient.addColorStop(1, `rgba(${leak.color}, 0)`);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, width, height);
+  });
+  ctx.restore();
+};
+
+const applyVignette = (ctx: CanvasRenderingContext2D, width: number, height: number, strength: number) => {
+  const cx = width / 2;
+  const cy = height / 2;
+  const gradient = ctx.createRadialGradient(cx, cy, Math.min(width, height) * 0.35, cx, cy, Math.hypot(cx, cy));
+  gradient.addColorStop(0, 'rgba(0, 0, 0, 0)');
+  gradient.addColorStop(1, `rgba(0, 0, 0, ${strength})`);
+  ctx.save();
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+  ctx.restore();
+};
+
+/**
+ * Render a film stock onto whatever is already drawn on the canvas (in place)
+ */
+export const applyFilmFilter = (ctx: CanvasRenderingContext2D, width: number, height: number, filterId: FilmFilterId) => {
+  const filter = FILM_FILTERS[filterId] || FILM_FILTERS[DEFAULT_FILM_FILTER];
+  ctx.save();
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  if (filter.tone) applyTone(ctx, width, height, filter, filter.tone);
+  if (filter.lightLeaks.length > 0) applyLightLeaks(ctx, width, height, filter.lightLeaks);
+  if (filter.grain > 0) applyGrain(ctx, width, height, filter.grain);
+  if (filter.vignette > 0) applyVignette(ctx, width, height, filter.vignette);
+  ctx.restore();
+};
+
+/**
+ * Draw one camera frame with its film stock. Used by both the live viewfinder and the shutter,
+ * so the preview is exactly what gets printed (just at a lower resolution).
+ */
+export const renderFilmFrame = (
+  ctx: CanvasRenderingContext2D,
+  source: CanvasImageSource,
+  width: number,
+  height: number,
+  filterId: FilmFilterId,
+  mirror = true
+) => {
+  ctx.save();
+  if (mirror) {
+    // Selfie mode: flip horizontally like a mirror
+    ctx.translate(width, 0);
+    ctx.scale(-1, 1);
+  }
+  ctx.drawImage(source, 0, 0, width, height);
+  ctx.restore();
+  applyFilmFilter(ctx, width, height, filterId);
+};
@@ -1,8 +1,40 @@
-import { initializeApp } from 'firebase/app';
-import { getFirestore, collection, addDoc, onSnapshot, query, orderBy, deleteDoc, doc } from 'firebase/firestore';
-import { getStorage, ref, uploadString, getDownloadURL, deleteObject } from 'firebase/storage';
-import { getAuth, signInAnonymously } from 'firebase/auth';
+import { initializeApp, FirebaseApp } from 'firebase/app';
+import { initializeFirestore, Firestore, collection, setDoc, updateDoc, getDocs, onSnapshot, query, where, deleteDoc, doc, QuerySnapshot } from 'firebase/firestore';
+import { getStorage, FirebaseStorage, ref, uploadString, getDownloadURL, deleteObject } from 'firebase/storage';
+import { getAuth, Auth, signInAnonymously } from 'firebase/auth';
 import { PhotoData } from '../types';
+import { GalleryBackend, GallerySubscribeOptions, PermissionDeniedError, createSubscriptionRegistry, filterForViewer, thumbnailImageId } from './galleryBackend';
+import { getDeviceId } from './identity';
+import { DEFAULT_ROOM } from './room';
+
+/*
+   ===========================================================================
+   FIRESTORE SECURITY RULES (Firebase Console > Firestore > Rules)
+
+   Only a photo's author (its anonymous uid) may edit it, and not its status or authorship;
+   admins (custom claim admin: true) moderate and delete. Reads stay open because the wall's
+   room query can't be proven against a per-document status rule; moderation is filtered in the app.
+
+   rules_version = '2';
+   service cloud.firestore {
+     match /databases/{database}/documents {
+       match /retro_photos/{photoId} {
+         function isAdmin() { return request.auth != null && request.auth.token.admin == true; }
+         function isAuthor() { return request.auth != null && resource.data.authorId == request.auth.uid; }
+
+         allow read: if true;
+         allow create: if request.auth != null && request.resource.data.authorId == request.auth.uid;
+         allow update: if isAdmin() || (isAuthor()
+           && request.resource.data.authorId == resource.data.authorId
+           && request.resource.data.get('status', 'approved') == resource.data.get('status', 'approved'));
+         allow delete: if isAdmin();
+       }
+     }
+   }
+
+   Give a staff account the claim with the Admin SDK: auth.setCustomUserClaims(uid, { admin: true })
+   ===========================================================================
+*/
 
 // TODO: Replace with your actual Firebase project configuration
 const firebaseConfig = {
@@ -14,16 +46,29 @@ const firebaseConfig = {
   appId: process.env.FIREBASE_APP_ID || "YOUR_APP_ID"
 };
 
-// Initialize Firebase
-const app = initializeApp(firebaseConfig);
-const db = getFirestore(app);
-const storage = getStorage(app);
-const auth = getAuth(app);
+const COLLECTION = 'retro_photos';
+
+// Initialize Firebase lazily so importing this module is free when another backend is selected
+let services: { app: FirebaseApp; db: Firestore; storage: FirebaseStorage; auth: Auth } | null = null;
+
+const getFirebase = () => {
+  if (!services) {
+    const app = initializeApp(firebaseConfig);
+    services = {
+      app,
+      // Optional PhotoData fields are undefined, which Firestore rejects by default
+      db: initializeFirestore(app, { ignoreUndefinedProperties: true }),
+      storage: getStorage(app),
+      auth: getAuth(app)
+    };
+  }
+  return services;
+};
 
 // Authenticate silently
 export const signIn = async () => {
   try {
-    await signInAnonymously(auth);
+    await signInAnonymously(getFirebase().auth);
     console.log("Signed in anonymously to Firebase");
   } catch (error) {
     console.error("Error signing in:", error);
@@ -32,53 +77,141 @@ export const signIn = async () => {
 
 // Upload photo to Firebase Storage and return the public URL
 export const uploadPhotoToStorage = async (base64Data: string, id: string): Promise<string> => {
-  const storageRef = ref(storage, `retro_photos/${id}.png`);
+  const storageRef = ref(getFirebase().storage, `${COLLECTION}/${id}.png`);
   await uploadString(storageRef, base64Data, 'data_url');
   return await getDownloadURL(storageRef);
 };
 
-// Save photo metadata to Firestore
+// Save photo metadata to Firestore (document id == photo id so updates/deletes can find it)
 export const savePhotoToFirestore = async (photo: PhotoData) => {
+  await setDoc(doc(getFirebase().db, COLLECTION, photo.id), photo);
+};
+
+// Security rules refusals can't be fixed by retrying; everything else is passed on as-is
+const toPermissionError = (error: any, message: string) =>
+  error?.code === 'permission-denied' ? new PermissionDeniedError(message) : error;
+
+// Throws PermissionDeniedError when the security rules refuse the edit (someone else's photo)
+export const updatePhotoInFirestore = async (id: string, updates: Partial<PhotoData>) => {
   try {
-    await addDoc(collection(db, 'retro_photos'), {
-      ...photo,
-      // Ensure we don't save the massive base64 string if we have a storage URL, 
-      // but for now we might be saving the storage URL in the `imageUrl` field.
-    });
+    await updateDoc(doc(getFirebase().db, COLLECTION, id), updates);
   } catch (e) {
-    console.error("Error adding document: ", e);
+    throw toPermissionError(e, "Only the photo's author (or an admin account) can change it.");
   }
 };
 
+// Only one room's documents leave the server. Documents saved before rooms existed have no roomId,
+// which Firestore can't query for: backfill them once with roomId "main" to keep them on the default wall.
+const roomQuery = (roomId: string) => query(collection(getFirebase().db, COLLECTION), where('roomId', '==', roomId));
+
+const snapshotToPhotos = (querySnapshot: QuerySnapshot) => {
+  const photos: PhotoData[] = [];
+  querySnapshot.forEach((doc) => {
+    const data = doc.data() as Omit<PhotoData, 'id'>;
+    // Firestore stores data, we attach the doc ID
+    photos.push({ ...data, id: doc.id, firestoreId: doc.id } as PhotoData);
+  });
+  return photos;
+};
+
+// Newest first, sorted here so no composite index (roomId + timestamp) is needed
+const roomPhotos = (querySnapshot: QuerySnapshot) =>
+  snapshotToPhotos(querySnapshot).sort((a, b) => b.timestamp - a.timestamp);
+
 // Realtime listener for gallery
-export const subscribeToGallery = (onUpdate: (photos: PhotoData[]) => void) => {
-  const q = query(collection(db, 'retro_photos'), orderBy('timestamp', 'desc'));
-  
-  return onSnapshot(q, (querySnapshot) => {
-    const photos: PhotoData[] = [];
-    querySnapshot.forEach((doc) => {
-      const data = doc.data() as Omit<PhotoData, 'id'>;
-      // Firestore stores data, we attach the doc ID
-      photos.push({ ...data, id: doc.id, firestoreId: doc.id } as PhotoData);
-    });
-    onUpdate(photos);
+export const subscribeToGallery = (onUpdate: (photos: PhotoData[]) => void, options: GallerySubscribeOptions = {}, roomId: string = DEFAULT_ROOM) => {
+  options.onConnectionChange?.('connecting');
+  // Metadata changes tell us when Firestore is serving from its offline cache
+  return onSnapshot(roomQuery(roomId), { includeMetadataChanges: true }, (querySnapshot) => {
+    options.onConnectionChange?.(querySnapshot.metadata.fromCache ? 'offline' : 'live');
+    onUpdate(filterForViewer(roomPhotos(querySnapshot), options));
   });
 };
 
-// Delete photo from Firestore and Storage
+// Delete photo from Firestore and Storage. Throws if Firestore refuses (e.g. not an admin account).
 export const deletePhotoFromFirebase = async (firestoreId: string, storageId: string) => {
+  const { db, storage } = getFirebase();
   try {
     // 1. Delete from Firestore
-    await deleteDoc(doc(db, 'retro_photos', firestoreId));
-    
-    // 2. Delete from Storage (try/catch in case it doesn't exist)
-    try {
-        const storageRef = ref(storage, `retro_photos/${storageId}.png`);
-        await deleteObject(storageRef);
-    } catch (storageError) {
+    await deleteDoc(doc(db, COLLECTION, firestoreId));
+
+    // 2. Delete the image and its thumbnail from Storage (try/catch in case they don't exist)
+    await Promise.all([storageId, thumbnailImageId(storageId)].map(async (name) => {
+      try {
+        await deleteObject(ref(storage, `${COLLECTION}/${name}.png`));
+      } catch (storageError) {
         console.warn("Could not delete file from storage (might be already gone)", storageError);
-    }
+      }
+    }));
   } catch (e) {
     console.error("Error deleting photo:", e);
+    throw toPermissionError(e, "Photo not deleted. Only admin accounts can delete.");
   }
 };
+
+// Delete every photo document (and its image) in a room
+export const clearFirebaseGallery = async (roomId: string = DEFAULT_ROOM) => {
+  const querySnapshot = await getDocs(roomQuery(roomId));
+  const ids = roomPhotos(querySnapshot).map(p => p.id);
+  await Promise.all(ids.map(id => deletePhotoFromFirebase(id, id)));
+};
+
+/**
+ * Firebase implementation of the GalleryBackend interface, bound to one room
+ */
+export const createFirebaseBackend = (roomId: string = DEFAULT_ROOM): GalleryBackend => {
+  const subscriptions = createSubscriptionRegistry();
+  const ready = signIn();
+
+  return {
+    kind: 'firebase',
+    roomId,
+
+    // Anonymous Firebase uid, or this device's id if sign-in failed
+    getAuthorId: async () => {
+      await ready;
+      return getFirebase().auth.currentUser?.uid || getDeviceId();
+    },
+
+    uploadImage: async (id, base64Image) => {
+      await ready;
+      return uploadPhotoToStorage(base64Image, id);
+    },
+
+    insertPhoto: async (photo) => {
+      await ready;
+      await savePhotoToFirestore({ ...photo, roomId });
+    },
+
+    updatePhoto: async (id, updates) => {
+      await ready;
+      await updatePhotoInFirestore(id, updates);
+    },
+
+    deletePhoto: async (id) => {
+      await ready;
+      await deletePhotoFromFirebase(id, id);
+    },
+
+    clearAll: async () => {
+      await ready;
+      await clearFirebaseGallery(roomId);
+    },
+
+    subscribe: (onPhotosUpdated, options = {}) => {
+      const unsubscribe = subscribeToGallery(onPhotosUpdated, options, roomId);
+      return subscriptions.track({
+        unsubscribe,
+        // onSnapshot is already live; a refresh just forces a server read
+        refresh: async () => {
+          const querySnapshot = await getDocs(roomQuery(roomId));
+          onPhotosUpdated(filterForViewer(roomPhotos(querySnapshot), options));
+        },
+        // The snapshot listener already covers the whole room
+        loadMore: async () => false
+      });
+    },
+
+    refresh: subscriptions.refreshAll
+  };
+};
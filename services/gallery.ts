@@ -0,0 +1,46 @@
+import { GalleryBackend, GalleryBackendKind } from './galleryBackend';
+import { createSupabaseBackend } from './supabase';
+import { createFirebaseBackend } from './firebase';
+import { createLocalBackend } from './localBackend';
+import { DEFAULT_ROOM } from './room';
+
+const DEFAULT_BACKEND: GalleryBackendKind = 'supabase';
+
+const resolveBackendKind = (): GalleryBackendKind => {
+  const configured = (process.env.GALLERY_BACKEND || '').toLowerCase();
+  if (configured === 'supabase' || configured === 'firebase' || configured === 'memory' || configured === 'indexeddb') {
+    return configured;
+  }
+  if (configured) {
+    console.warn(`Unknown GALLERY_BACKEND "${configured}", falling back to ${DEFAULT_BACKEND}`);
+  }
+  return DEFAULT_BACKEND;
+};
+
+export const createGalleryBackend = (roomId: string = DEFAULT_ROOM, kind: GalleryBackendKind = resolveBackendKind()): GalleryBackend => {
+  switch (kind) {
+    case 'firebase':
+      return createFirebaseBackend(roomId);
+    case 'memory':
+      return createLocalBackend({ roomId });
+    case 'indexeddb':
+      return createLocalBackend({ persist: true, roomId });
+    case 'supabase':
+    default:
+      return createSupabaseBackend(roomId);
+  }
+};
+
+const backendsByRoom = new Map<string, GalleryBackend>();
+
+/**
+ * The backend selected by the GALLERY_BACKEND env var for a room (shared app-wide)
+ */
+export const getGalleryBackend = (roomId: string = DEFAULT_ROOM): GalleryBackend => {
+  let backend = backendsByRoom.get(roomId);
+  if (!backend) {
+    backend = createGalleryBackend(roomId);
+    backendsByRoom.set(roomId, backend);
+  }
+  return backend;
+};
@@ -0,0 +1,109 @@
+import { PhotoData } from '../types';
+
+export type GalleryBackendKind = 'supabase' | 'firebase' | 'memory' | 'indexeddb';
+
+// live: pushed updates; polling: realtime is down and we poll for changes; offline: no server reachable
+export type GalleryConnectionState = 'connecting' | 'live' | 'polling' | 'offline';
+
+export interface GallerySubscribeOptions {
+  // Moderators also need pending/hidden/rejected photos; regular viewers only get approved ones
+  includeUnapproved?: boolean;
+  // Reports how fresh the emitted list is (shown as a small indicator in the UI)
+  onConnectionChange?: (state: GalleryConnectionState) => void;
+}
+
+export interface GallerySubscription {
+  unsubscribe: () => void;
+  refresh: () => Promise<void>;
+  // Fetch the next page of older photos; resolves to false once there is nothing older
+  loadMore: () => Promise<boolean>;
+}
+
+/**
+ * Common contract for every gallery persistence provider.
+ * The UI only talks to this interface, so providers can be swapped via config.
+ */
+export interface GalleryBackend {
+  kind: GalleryBackendKind;
+  // Every backend instance is bound to a single event room
+  roomId: string;
+  // Anonymous per-device identity stamped on new photos as authorId
+  getAuthorId: () => Promise<string>;
+  // Store the image bytes and return the URL that should be saved on the photo
+  uploadImage: (id: string, base64Image: string) => Promise<string>;
+  insertPhoto: (photo: PhotoData) => Promise<void>;
+  updatePhoto: (id: string, updates: Partial<PhotoData>) => Promise<void>;
+  deletePhoto: (id: string) => Promise<void>;
+  // Wipe every photo (admin "reset event")
+  clearAll: () => Promise<void>;
+  // Emits the full, newest-first photo list whenever it changes
+  subscribe: (onPhotosUpdated: (photos: PhotoData[]) => void, options?: GallerySubscribeOptions) => GallerySubscription;
+  // Re-fetch for every live subscription
+  refresh: () => Promise<void>;
+}
+
+/**
+ * The server refused the change for this session (RLS / security rules). Retrying won't help.
+ */
+export class PermissionDeniedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermissionDeniedError';
+  }
+}
+
+// Rows created before moderation existed have no status and count as approved
+export const isPubliclyVisible = (photo: PhotoData) => (photo.status || 'approved') === 'approved';
+
+export const filterForViewer = (photos: PhotoData[], options: GallerySubscribeOptions = {}) =>
+  options.includeUnapproved ? photos : photos.filter(isPubliclyVisible);
+
+/**
+ * Keeps track of live subscriptions so a backend can offer a global refresh()
+ */
+export const createSubscriptionRegistry = () => {
+  const refreshers = new Set<() => Promise<void>>();
+
+  return {
+    track: (subscription: GallerySubscription): GallerySubscription => {
+      refreshers.add(subscription.refresh);
+      return {
+        ...subscription,
+        unsubscribe: () => {
+          refreshers.delete(subscription.refresh);
+          subscription.unsubscribe();
+        }
+      };
+    },
+    refreshAll: async () => {
+      await Promise.all(Array.from(refreshers).map(refresh => refresh()));
+    }
+  };
+};
+
+// Storage id of a photo's thumbnail (next to the master, which uses the photo id)
+export const thumbnailImageId = (photoId: string) => `${photoId}_thumb`;
+
+/**
+ * 1. Upload the image (and its thumbnail) through the backend
+ * 2. Insert the photo record pointing at the uploaded images
+ */
+export const uploadAndSavePhoto = async (
+  backend: GalleryBackend,
+  // thumbnailData is missing on uploads queued before thumbnails existed
+  image: { imageData: string; thumbnailData?: string },
+  photoMetadata: Omit<PhotoData, 'imageUrl' | 'timestamp'>
+): Promise<PhotoData> => {
+  const [imageUrl, thumbnailUrl] = await Promise.all([
+    backend.uploadImage(photoMetadata.id, image.imageData),
+    image.thumbnailData ? backend.uploadImage(thumbnailImageId(photoMetadata.id), image.thumbnailData) : undefined
+  ]);
+  const photo: PhotoData = {
+    ...photoMetadata,
+    imageUrl,
+    thumbnailUrl,
+    timestamp: Date.now()
+  };
+  await backend.insertPhoto(photo);
+  return photo;
+};
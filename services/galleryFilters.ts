@@ -0,0 +1,117 @@
+import { PhotoData } from '../types';
+
+export type GallerySort = 'newest' | 'oldest';
+
+// What the pinboard is narrowed down to. Empty strings mean "any".
+export interface GalleryFilters {
+  query: string; // Matched against caption, bio, handle and tags
+  date: string; // Printed polaroid date, YYYY/MM/DD
+  from: string; // Time of day the photo was taken, HH:MM (local)
+  to: string;
+  tag: string;
+  sort: GallerySort;
+}
+
+export const DEFAULT_GALLERY_FILTERS: GalleryFilters = {
+  query: '',
+  date: '',
+  from: '',
+  to: '',
+  tag: '',
+  sort: 'newest'
+};
+
+// Query string keys (short, since these links get shared around)
+const PARAMS: Record<keyof GalleryFilters, string> = {
+  query: 'q',
+  date: 'date',
+  from: 'from',
+  to: 'to',
+  tag: 'tag',
+  sort: 'sort'
+};
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DATE_PATTERN = /^\d{4}\/\d{2}\/\d{2}$/;
+
+export const hasActiveFilters = (filters: GalleryFilters) =>
+  (Object.keys(DEFAULT_GALLERY_FILTERS) as (keyof GalleryFilters)[])
+    .some(key => filters[key] !== DEFAULT_GALLERY_FILTERS[key]);
+
+/**
+ * Filters from the URL (?q=&date=&from=&to=&tag=&sort=); anything malformed is ignored
+ */
+export const getGalleryFiltersFromUrl = (): GalleryFilters => {
+  const params = new URLSearchParams(window.location.search);
+  // Dates travel as YYYY-MM-DD so the link doesn't fill up with %2F
+  const date = (params.get(PARAMS.date) || '').replace(/-/g, '/');
+  const from = params.get(PARAMS.from) || '';
+  const to = params.get(PARAMS.to) || '';
+  return {
+    query: (params.get(PARAMS.query) || '').slice(0, 100),
+    date: DATE_PATTERN.test(date) ? date : '',
+    from: TIME_PATTERN.test(from) ? from : '',
+    to: TIME_PATTERN.test(to) ? to : '',
+    tag: (params.get(PARAMS.tag) || '').toLowerCase(),
+    sort: params.get(PARAMS.sort) === 'oldest' ? 'oldest' : 'newest'
+  };
+};
+
+/**
+ * Mirror the filters into the URL so the filtered wall can be shared.
+ * Replaces the history entry: typing a search shouldn't fill up the back button.
+ */
+export const setGalleryFiltersInUrl = (filters: GalleryFilters) => {
+  const url = new URL(window.location.href);
+  (Object.keys(PARAMS) as (keyof GalleryFilters)[]).forEach(key => {
+    const value = key === 'date' ? filters.date.replace(/\//g, '-') : filters[key].trim();
+    if (filters[key] === DEFAULT_GALLERY_FILTERS[key] || !value) url.searchParams.delete(PARAMS[key]);
+    else url.searchParams.set(PARAMS[key], value);
+  });
+  if (url.href !== window.location.href) window.history.replaceState(window.history.state, '', url.toString());
+};
+
+// Minutes since local midnight
+const minutesOf = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// A range like 22:00-02:00 wraps past midnight
+const isInTimeRange = (timestamp: number, from: string, to: string) => {
+  const taken = new Date(timestamp);
+  const minutes = taken.getHours() * 60 + taken.getMinutes();
+  const start = from ? minutesOf(from) : 0;
+  const end = to ? minutesOf(to) : 24 * 60 - 1;
+  return start <= end ? minutes >= start && minutes <= end : minutes >= start || minutes <= end;
+};
+
+// Every word of the search has to appear somewhere in the photo's text
+const matchesQuery = (photo: PhotoData, query: string) => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return true;
+  const haystack = [photo.caption, photo.bio, photo.authorName, photo.socialHandle, ...(photo.tags || [])]
+    .filter(Boolean)
+    .join(' ')
+    .toLowerCase();
+  return terms.every(term => haystack.includes(term.replace(/^[@#]/, '')));
+};
+
+/**
+ * The photos matching the filters, in the requested order (only covers the pages loaded so far)
+ */
+export const filterPhotos = (photos: PhotoData[], filters: GalleryFilters): PhotoData[] => {
+  const matching = photos.filter(photo =>
+    matchesQuery(photo, filters.query)
+    && (!filters.date || photo.date === filters.date)
+    && (!(filters.from || filters.to) || isInTimeRange(photo.timestamp, filters.from, filters.to))
+    && (!filters.tag || !!photo.tags?.includes(filters.tag))
+  );
+  return matching.sort((a, b) => filters.sort === 'oldest' ? a.timestamp - b.timestamp : b.timestamp - a.timestamp);
+};
+
+/**
+ * Distinct polaroid dates on the wall, newest first (for the date picker)
+ */
+export const photoDates = (photos: PhotoData[]): string[] =>
+  Array.from(new Set(photos.map(photo => photo.date).filter(date => DATE_PATTERN.test(date)))).sort().reverse();
@@ -1,58 +1,172 @@
 import { GoogleGenAI, Type } from "@google/genai";
 import { GeminiResponse } from "../types";
+import { buildCaptionAlternativesPrompt, buildCaptionPrompt } from "./captionSettings";
+import { CaptionError, CaptionProvider, formatPhotoDate } from "./captionProvider";
+import { detectImageMimeType } from "./safetyService";
+import { normalizeTags } from "./photoTags";
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+const GEMINI_MODEL = "gemini-2.5-flash";
 
-export const generatePhotoCaption = async (base64Image: string): Promise<GeminiResponse> => {
-  // Get real current date in YYYY/MM/DD format
-  const now = new Date();
-  const currentDate = `${now.getFullYear()}/${String(now.getMonth() + 1).padStart(2, '0')}/${String(now.getDate()).padStart(2, '0')}`;
+// Created on first use, so importing this module needs no API key (and other providers never pay for it)
+let ai: GoogleGenAI | null = null;
 
+const getClient = () => {
+  if (!ai) {
+    if (!process.env.API_KEY) throw new CaptionError("Gemini API key missing", false);
+    ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  }
+  return ai;
+};
+
+export const hasGeminiApiKey = () => !!process.env.API_KEY;
+
+// Formats Gemini accepts inline; anything else is re-encoded as JPEG
+const GEMINI_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'image/heif'];
+// A caption only needs the gist of the photo; smaller images are faster and cheaper
+const CAPTION_MAX_EDGE = 768;
+// Inline image budget per request (base64 characters), far below Gemini's 20 MB request limit
+const CAPTION_MAX_BASE64_LENGTH = 4 * 1024 * 1024;
+const CAPTION_JPEG_QUALITY = 0.8;
+
+// The image itself can't be captioned; retrying won't help
+export class CaptionImageError extends CaptionError {
+  constructor(message: string) {
+    super(message, false);
+    this.name = 'CaptionImageError';
+  }
+}
+
+interface InlineImage {
+  mimeType: string;
+  data: string; // base64 without the data URL header
+}
+
+// Real format from the first bytes (the data URL header may lie, or be missing)
+const sniffMimeType = (base64: string) => {
   try {
-    // Clean base64 string if it has the header
-    const cleanBase64 = base64Image.replace(/^data:image\/(png|jpeg|jpg);base64,/, "");
-
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              mimeType: "image/png",
-              data: cleanBase64,
-            },
-          },
-          {
-            text: `You are a cute, aesthetic retro camera AI. Analyze this image and generate a very short, handwritten-style caption (max 6 words) that captures the vibe. The date is ${currentDate}. Return this exact date in the date field. Be cute, nostalgic, or funny.`,
-          },
-        ],
-      },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            caption: { type: Type.STRING },
-            date: { type: Type.STRING },
-          },
-          required: ["caption", "date"],
-        },
-      },
-    });
+    const bytes = Uint8Array.from(atob(base64.slice(0, 16)), c => c.charCodeAt(0));
+    return detectImageMimeType(bytes);
+  } catch (e) {
+    return null;
+  }
+};
+
+// Downscaled JPEG copy, or null when this browser can't decode the image (e.g. HEIC outside Safari)
+const reencode = async (image: InlineImage, maxEdge: number): Promise<InlineImage | null> => {
+  let bitmap: ImageBitmap;
+  try {
+    const blob = await (await fetch(`data:${image.mimeType};base64,${image.data}`)).blob();
+    bitmap = await createImageBitmap(blob);
+  } catch (e) {
+    return null;
+  }
 
-    const jsonText = response.text;
-    if (!jsonText) throw new Error("No text returned from Gemini");
+  try {
+    const scale = Math.min(1, maxEdge / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    const context = canvas.getContext('2d');
+    if (!context) return null;
+    context.imageSmoothingQuality = 'high';
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    const dataUrl = canvas.toDataURL('image/jpeg', CAPTION_JPEG_QUALITY);
+    return { mimeType: 'image/jpeg', data: dataUrl.slice(dataUrl.indexOf(',') + 1) };
+  } finally {
+    bitmap.close();
+  }
+};
+
+/**
+ * Get any image into a shape Gemini accepts: a supported format, at most CAPTION_MAX_EDGE,
+ * and within the request size budget (shrinking further if needed).
+ */
+export const prepareCaptionImage = async (base64Image: string): Promise<InlineImage> => {
+  const data = base64Image.replace(/^data:[^,]*,/, "");
+  const mimeType = sniffMimeType(data);
+  if (!mimeType) throw new CaptionImageError("Unrecognized image format");
+
+  const original = { mimeType, data };
+  let maxEdge = CAPTION_MAX_EDGE;
+  for (let attempt = 0; attempt < 4; attempt++) {
+    const resized = await reencode(original, maxEdge);
+    if (!resized) break;
+    if (resized.data.length <= CAPTION_MAX_BASE64_LENGTH) return resized;
+    maxEdge = Math.round(maxEdge * 0.7);
+  }
+
+  // Couldn't re-encode here: send the original if Gemini can take it as is
+  if (GEMINI_IMAGE_TYPES.includes(mimeType) && data.length <= CAPTION_MAX_BASE64_LENGTH) return original;
+  throw new CaptionImageError(`Image too large or unsupported for captioning (${mimeType}, ${Math.round(data.length / 1024)} KB base64)`);
+};
 
-    const data = JSON.parse(jsonText) as GeminiResponse;
+// Ask Gemini for JSON matching the schema
+const requestJson = async <T>(inlineData: InlineImage, prompt: string, responseSchema: object): Promise<T> => {
+  const response = await getClient().models.generateContent({
+    model: GEMINI_MODEL,
+    contents: {
+      parts: [
+        { inlineData },
+        { text: prompt },
+      ],
+    },
+    config: {
+      responseMimeType: "application/json",
+      responseSchema,
+    },
+  });
+
+  const jsonText = response.text;
+  if (!jsonText) throw new CaptionError("No text returned from Gemini");
+  return JSON.parse(jsonText) as T;
+};
+
+/**
+ * Gemini-backed captions. Errors are thrown, the caller decides on retries and fallbacks.
+ */
+export const createGeminiCaptionProvider = (): CaptionProvider => ({
+  kind: 'gemini',
+
+  caption: async ({ image, settings, eventName, takenAt }) => {
+    const currentDate = formatPhotoDate(takenAt);
+    const data = await requestJson<GeminiResponse>(
+      await prepareCaptionImage(image),
+      buildCaptionPrompt(settings, currentDate, eventName),
+      {
+        type: Type.OBJECT,
+        properties: {
+          caption: { type: Type.STRING },
+          date: { type: Type.STRING },
+          altText: { type: Type.STRING },
+          tags: { type: Type.ARRAY, items: { type: Type.STRING } },
+        },
+        required: ["caption", "date", "altText", "tags"],
+      }
+    );
+    if (!data.caption?.trim()) throw new CaptionError("Gemini returned an empty caption");
     // Use the real date explicitly
-    data.date = currentDate;
-    return data;
-  } catch (error) {
-    console.error("Error generating caption:", error);
-    // Fallback if AI fails
     return {
-      caption: "Sweet memory ✨",
+      caption: data.caption.trim(),
       date: currentDate,
+      altText: data.altText?.trim() || undefined,
+      tags: normalizeTags(data.tags)
     };
+  },
+
+  alternatives: async ({ image, settings, eventName }, count) => {
+    const { captions } = await requestJson<{ captions: string[] }>(
+      await prepareCaptionImage(image),
+      buildCaptionAlternativesPrompt(settings, count, eventName),
+      {
+        type: Type.OBJECT,
+        properties: {
+          captions: { type: Type.ARRAY, items: { type: Type.STRING } },
+        },
+        required: ["captions"],
+      }
+    );
+    const unique = Array.from(new Set((captions || []).map(c => c.trim()).filter(Boolean)));
+    if (unique.length === 0) throw new CaptionError("Gemini returned no captions");
+    return unique.slice(0, count);
   }
-};
\ No newline at end of file
+});
@@ -0,0 +1,24 @@
+import { PhotoData } from '../types';
+
+const DEVICE_ID_KEY = 'retro_snap_device_id';
+
+/**
+ * Stable random id for this browser, used as author identity when the backend has no auth
+ */
+export const getDeviceId = (): string => {
+  try {
+    let id = localStorage.getItem(DEVICE_ID_KEY);
+    if (!id) {
+      id = crypto.randomUUID();
+      localStorage.setItem(DEVICE_ID_KEY, id);
+    }
+    return id;
+  } catch (e) {
+    // Storage disabled (private mode): identity only lasts for this page load
+    return crypto.randomUUID();
+  }
+};
+
+// Only the author may edit bio/handle/caption. Legacy photos without an author are read-only.
+export const canEditPhoto = (photo: PhotoData, authorId: string | null) =>
+  !!authorId && !!photo.authorId && photo.authorId === authorId;
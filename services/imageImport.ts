@@ -0,0 +1,76 @@
+import { FilmFilterId } from '../types';
+import { applyFilmFilter } from './filmFilters';
+import { ProcessedImage, getMaxEdge, processImage } from './imageProcessing';
+import { detectImageMimeType } from './safetyService';
+
+// What the gallery picker offers (HEIC/HEIF is what iPhones save by default)
+export const ACCEPTED_UPLOAD_TYPES = 'image/jpeg,image/png,image/webp,image/heic,image/heif,.heic,.heif';
+
+const SUPPORTED_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'image/heif'];
+
+const isHeif = async (file: File) => {
+  if (file.type === 'image/heic' || file.type === 'image/heif' || /\.hei[cf]$/i.test(file.name)) return true;
+  // Browsers often report an empty file.type for these, so look at the bytes
+  const mimeType = detectImageMimeType(new Uint8Array(await file.slice(0, 12).arrayBuffer()));
+  return mimeType === 'image/heic' || mimeType === 'image/heif';
+};
+
+// Only Safari decodes HEIC natively; everyone else gets a converter, loaded on first use
+const convertHeicToJpeg = async (file: File): Promise<Blob> => {
+  // @ts-ignore
+  const { default: heic2any } = await import('https://cdn.jsdelivr.net/npm/heic2any@0.0.4/+esm');
+  const converted = await heic2any({ blob: file, toType: 'image/jpeg', quality: 0.9 });
+  return Array.isArray(converted) ? converted[0] : converted;
+};
+
+const decodeImage = async (file: File): Promise<ImageBitmap> => {
+  try {
+    return await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch (e) {
+    if (!(await isHeif(file))) throw e;
+    return createImageBitmap(await convertHeicToJpeg(file), { imageOrientation: 'from-image' });
+  }
+};
+
+export class UnsupportedImageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnsupportedImageError';
+  }
+}
+
+/**
+ * Turn a picked file into the same kind of image the camera produces:
+ * a center-cropped square with the chosen film stock baked in (never mirrored).
+ */
+export const importPhotoFile = async (file: File, filter: FilmFilterId): Promise<ProcessedImage> => {
+  if (file.type && !SUPPORTED_MIME_TYPES.includes(file.type) && !(await isHeif(file))) {
+    throw new UnsupportedImageError("Please pick a JPEG, PNG, HEIC or WebP photo");
+  }
+
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await decodeImage(file);
+  } catch (e) {
+    console.warn("Could not decode picked image:", e);
+    throw new UnsupportedImageError("That photo couldn't be opened");
+  }
+
+  try {
+    const side = Math.min(bitmap.width, bitmap.height);
+    // Crop straight to the stored size (no point filtering pixels the master would drop)
+    const edge = Math.min(side, getMaxEdge());
+    const canvas = document.createElement('canvas');
+    canvas.width = edge;
+    canvas.height = edge;
+    const context = canvas.getContext('2d');
+    if (!context) throw new UnsupportedImageError("Canvas not supported");
+
+    // Center crop to the square polaroid frame
+    context.drawImage(bitmap, (bitmap.width - side) / 2, (bitmap.height - side) / 2, side, side, 0, 0, edge, edge);
+    applyFilmFilter(context, edge, edge, filter);
+    return processImage(canvas);
+  } finally {
+    bitmap.close();
+  }
+};
@@ -0,0 +1,86 @@
+import { PhotoData } from '../types';
+
+// Turns a captured canvas into what we store: a size-capped master for the big polaroid
+// and a small thumbnail for the grid / film strip, encoded as WebP where the browser can.
+
+// Longest edge of the stored master image (override with IMAGE_MAX_EDGE)
+export const DEFAULT_MAX_EDGE = 1280;
+// Longest edge of the thumbnail
+export const THUMBNAIL_EDGE = 400;
+
+const MASTER_QUALITY = 0.8;
+const THUMBNAIL_QUALITY = 0.7;
+
+export interface ProcessedImage {
+  imageData: string; // Master, data URL
+  thumbnailData: string; // Thumbnail, data URL
+}
+
+export const getMaxEdge = (raw: string | undefined = process.env.IMAGE_MAX_EDGE) => {
+  const value = Number(raw);
+  return Number.isFinite(value) && value >= THUMBNAIL_EDGE ? Math.round(value) : DEFAULT_MAX_EDGE;
+};
+
+let webpSupported: boolean | null = null;
+
+// Browsers that can't encode WebP (older Safari) silently hand back a PNG instead
+export const supportsWebpEncoding = () => {
+  if (webpSupported === null) {
+    const probe = document.createElement('canvas');
+    probe.width = 1;
+    probe.height = 1;
+    webpSupported = probe.toDataURL('image/webp').startsWith('data:image/webp');
+  }
+  return webpSupported;
+};
+
+const resizeToFit = (source: HTMLCanvasElement, maxEdge: number) => {
+  const scale = maxEdge / Math.max(source.width, source.height);
+  if (scale >= 1) return source;
+
+  const target = document.createElement('canvas');
+  target.width = Math.max(1, Math.round(source.width * scale));
+  target.height = Math.max(1, Math.round(source.height * scale));
+  const context = target.getContext('2d');
+  if (!context) return source;
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(source, 0, 0, target.width, target.height);
+  return target;
+};
+
+const encode = (canvas: HTMLCanvasElement, quality: number) =>
+  canvas.toDataURL(supportsWebpEncoding() ? 'image/webp' : 'image/jpeg', quality);
+
+/**
+ * Encode a finished capture (camera frame, photobooth strip or imported photo) as master + thumbnail
+ */
+export const processImage = (source: HTMLCanvasElement, maxEdge: number = getMaxEdge()): ProcessedImage => {
+  const master = resizeToFit(source, maxEdge);
+  const thumbnail = resizeToFit(master, THUMBNAIL_EDGE);
+  return {
+    imageData: encode(master, MASTER_QUALITY),
+    thumbnailData: encode(thumbnail, THUMBNAIL_QUALITY)
+  };
+};
+
+// MIME type declared in a data URL header (JPEG when there is none)
+export const dataUrlMimeType = (dataUrl: string) =>
+  dataUrl.match(/^data:(image\/[\w+.-]+);/)?.[1] || 'image/jpeg';
+
+export const blobToDataUrl = (blob: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+/**
+ * A photo's master image as a data URL: from local bytes, inline data, or downloaded from storage
+ */
+export const photoImageToDataUrl = async (photo: PhotoData) => {
+  if (photo.imageBlob) return blobToDataUrl(photo.imageBlob);
+  if (photo.imageUrl.startsWith('data:')) return photo.imageUrl;
+  const response = await fetch(photo.imageUrl);
+  if (!response.ok) throw new Error(`Image download failed (${response.status})`);
+  return blobToDataUrl(await response.blob());
+};
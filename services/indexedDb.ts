@@ -0,0 +1,36 @@
+// Minimal promise wrappers around IndexedDB so services don't repeat the callback dance.
+
+export const openDatabase = (
+  name: string,
+  version: number,
+  upgrade: (db: IDBDatabase, oldVersion: number) => void
+): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error("IndexedDB is not available"));
+      return;
+    }
+    const request = indexedDB.open(name, version);
+    request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Run a single store operation inside its own transaction
+export const withStore = async <T>(
+  db: IDBDatabase,
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const tx = db.transaction(storeName, mode);
+  return requestToPromise(run(tx.objectStore(storeName)));
+};
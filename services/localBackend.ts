@@ -0,0 +1,127 @@
+import { PhotoData } from '../types';
+import { GalleryBackend, GallerySubscribeOptions, createSubscriptionRegistry, filterForViewer } from './galleryBackend';
+import { openDatabase, withStore } from './indexedDb';
+import { getDeviceId } from './identity';
+import { DEFAULT_ROOM, isInRoom } from './room';
+
+const DB_NAME = 'retro_snap_local_gallery';
+const STORE_NAME = 'photos';
+
+interface LocalBackendOptions {
+  // Persist to IndexedDB; otherwise photos only live in memory (handy for tests)
+  persist?: boolean;
+  roomId?: string;
+}
+
+/**
+ * Fully offline gallery backend.
+ * Images stay as data URLs, so no network is ever touched.
+ */
+export const createLocalBackend = ({ persist = false, roomId = DEFAULT_ROOM }: LocalBackendOptions = {}): GalleryBackend => {
+  const photos = new Map<string, PhotoData>();
+  const listeners = new Map<(photos: PhotoData[]) => void, GallerySubscribeOptions>();
+  const subscriptions = createSubscriptionRegistry();
+
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  const getDb = () => {
+    if (!dbPromise) {
+      dbPromise = openDatabase(DB_NAME, 1, (db) => {
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        }
+      });
+    }
+    return dbPromise;
+  };
+
+  const snapshot = () => Array.from(photos.values()).sort((a, b) => b.timestamp - a.timestamp);
+
+  const notify = () => {
+    const current = snapshot();
+    listeners.forEach((options, listener) => listener(filterForViewer(current, options)));
+  };
+
+  const load = async () => {
+    if (!persist) return;
+    try {
+      const db = await getDb();
+      const stored = await withStore<PhotoData[]>(db, STORE_NAME, 'readonly', store => store.getAll());
+      photos.clear();
+      // All rooms share one store
+      stored.filter(photo => isInRoom(photo, roomId)).forEach(photo => photos.set(photo.id, photo));
+    } catch (e) {
+      console.warn("Local gallery could not be read from IndexedDB:", e);
+    }
+  };
+
+  const write = async (photo: PhotoData) => {
+    if (!persist) return;
+    const db = await getDb();
+    await withStore(db, STORE_NAME, 'readwrite', store => store.put(photo));
+  };
+
+  const remove = async (id: string) => {
+    if (!persist) return;
+    const db = await getDb();
+    await withStore(db, STORE_NAME, 'readwrite', store => store.delete(id));
+  };
+
+  const refresh = async () => {
+    await load();
+    notify();
+  };
+
+  return {
+    kind: persist ? 'indexeddb' : 'memory',
+    roomId,
+
+    getAuthorId: async () => getDeviceId(),
+
+    uploadImage: async (_id, base64Image) => base64Image,
+
+    insertPhoto: async (photo) => {
+      const roomPhoto = { ...photo, roomId };
+      photos.set(photo.id, roomPhoto);
+      await write(roomPhoto);
+      notify();
+    },
+
+    updatePhoto: async (id, updates) => {
+      const existing = photos.get(id);
+      if (!existing) return;
+      const updated = { ...existing, ...updates, id };
+      photos.set(id, updated);
+      await write(updated);
+      notify();
+    },
+
+    deletePhoto: async (id) => {
+      photos.delete(id);
+      await remove(id);
+      notify();
+    },
+
+    clearAll: async () => {
+      const ids = Array.from(photos.keys());
+      photos.clear();
+      await Promise.all(ids.map(remove));
+      notify();
+    },
+
+    subscribe: (onPhotosUpdated, options = {}) => {
+      listeners.set(onPhotosUpdated, options);
+      // Nothing to sync with: this device is the source of truth
+      options.onConnectionChange?.('live');
+      onPhotosUpdated(filterForViewer(snapshot(), options));
+      refresh();
+      return subscriptions.track({
+        unsubscribe: () => { listeners.delete(onPhotosUpdated); },
+        refresh,
+        // Everything is already in memory
+        loadMore: async () => false
+      });
+    },
+
+    refresh: subscriptions.refreshAll
+  };
+};
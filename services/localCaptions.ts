@@ -0,0 +1,144 @@
+import { CaptionLanguage, CaptionStyle } from '../types';
+import { CaptionProvider, CaptionRequest, formatPhotoDate } from './captionProvider';
+
+/*
+  Offline captions from a curated phrase bank. No network and no randomness: the same photo,
+  settings and time of day always get the same caption, so it also works as a stable fallback.
+  Templates can use {time} (morning, afternoon...) and {event}; languages without a phrase for a style use English.
+*/
+
+type TimeOfDay = 'morning' | 'afternoon' | 'evening' | 'night';
+
+type PhraseBank = Partial<Record<CaptionStyle, string[]>>;
+
+const PHRASES: Partial<Record<CaptionLanguage, PhraseBank>> = {
+  en: {
+    nostalgic: [
+      'Sweet memory ✨',
+      'Remember this {time}? 💛',
+      'Us, this {time}, forever',
+      'Golden {time}, golden friends',
+      'Keep this one close 📷',
+      'A moment worth keeping',
+      'Someday we will miss this',
+      'Little {time}, big memory'
+    ],
+    funny: [
+      'Nobody blinked. A miracle 😂',
+      'Peak {time} energy',
+      'Caught in 4K (ish) 📸',
+      'Serving looks this {time}',
+      'Photographer deserves a raise',
+      'Legally, this is art',
+      'Main characters only 😎'
+    ],
+    poetic: [
+      'Light lingers where laughter was',
+      'The {time} held its breath for us',
+      'Soft {time}, softer hearts',
+      'We were the brightest thing in the room',
+      'Time paused, just for a frame'
+    ],
+    haiku: [
+      'Laughter in the frame / a soft {time} light lingers / we stay forever',
+      'Click of the shutter / this {time} folds into paper / warm in our pockets',
+      'Faces close to glass / one breath of the {time} air / kept in silver light'
+    ],
+    event: [
+      '{event} memories ✨',
+      'Live from {event} 🎉',
+      '{event}, what a {time}!',
+      'Best {time} at {event}',
+      'Cheers to {event} 🥂'
+    ]
+  },
+  ne: {
+    nostalgic: ['मीठो सम्झना ✨', 'यो पल सधैं याद रहोस्', 'साथीहरूसँगको सुनौलो पल'],
+    funny: ['कसैले आँखा झिम्काएन! 😂', 'आजको हिरो हामी नै 😎'],
+    poetic: ['हाँसोले भरिएको एउटा क्षण', 'समय यहीँ रोकियोस्'],
+    event: ['{event} को सम्झना ✨', '{event} मा रमाइलो 🎉']
+  },
+  hi: {
+    nostalgic: ['प्यारी याद ✨', 'ये पल हमेशा याद रहेगा', 'दोस्तों के साथ सुनहरा पल'],
+    funny: ['किसी ने पलक नहीं झपकाई! 😂', 'आज के हीरो हम ही हैं 😎'],
+    poetic: ['हँसी से भरा एक लम्हा', 'वक़्त यहीं थम जाए'],
+    event: ['{event} की यादें ✨', '{event} में मस्ती 🎉']
+  }
+};
+
+const timeOfDay = (date: Date): TimeOfDay => {
+  const hour = date.getHours();
+  if (hour >= 5 && hour < 12) return 'morning';
+  if (hour >= 12 && hour < 17) return 'afternoon';
+  if (hour >= 17 && hour < 21) return 'evening';
+  return 'night';
+};
+
+// Cheap FNV-1a over a sample of the image, so different photos get different phrases
+const hashString = (value: string) => {
+  let hash = 0x811c9dc5;
+  const step = Math.max(1, Math.floor(value.length / 256));
+  for (let i = 0; i < value.length; i += step) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Phrases for the style in the language (event captions need an event name)
+const phrasesFor = (style: CaptionStyle, language: CaptionLanguage, hasEvent: boolean): string[] => {
+  const effectiveStyle = style === 'event' && !hasEvent ? 'nostalgic' : style;
+  return PHRASES[language]?.[effectiveStyle] || PHRASES.en?.[effectiveStyle] || ['Sweet memory ✨'];
+};
+
+const localCaptions = ({ image, settings, eventName, takenAt = new Date() }: CaptionRequest, count: number) => {
+  const phrases = phrasesFor(settings.style, settings.language, !!eventName);
+  const time = timeOfDay(takenAt);
+  const start = hashString(`${image}|${settings.style}|${settings.language}|${time}`) % phrases.length;
+
+  const captions: string[] = [];
+  for (let i = 0; i < Math.min(count, phrases.length); i++) {
+    captions.push(
+      phrases[(start + i) % phrases.length]
+        .replace(/\{time\}/g, time)
+        .replace(/\{event\}/g, eventName || '')
+    );
+  }
+  return captions;
+};
+
+/**
+ * Phrase-bank captions that never touch the network
+ */
+export const createLocalCaptionProvider = (): CaptionProvider => ({
+  kind: 'local',
+  caption: async (request) => ({
+    caption: localCaptions(request, 1)[0],
+    date: formatPhotoDate(request.takenAt)
+  }),
+  alternatives: async (request, count) => localCaptions(request, count)
+});
+
+interface MockCaptionOptions {
+  captions?: string[];
+  delayMs?: number;
+  // Reject every call (to exercise timeouts, retries and fallbacks)
+  error?: Error;
+}
+
+/**
+ * Canned captions for tests and demos; no API key needed
+ */
+export const createMockCaptionProvider = ({ captions = ['Mock caption 📷'], delayMs = 0, error }: MockCaptionOptions = {}): CaptionProvider => {
+  const respond = async <T>(value: T): Promise<T> => {
+    if (delayMs > 0) await new Promise(resolve => setTimeout(resolve, delayMs));
+    if (error) throw error;
+    return value;
+  };
+
+  return {
+    kind: 'mock',
+    caption: (request) => respond({ caption: captions[0], date: formatPhotoDate(request.takenAt) }),
+    alternatives: (_request, count) => respond(captions.slice(0, count))
+  };
+};
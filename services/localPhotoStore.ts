@@ -0,0 +1,252 @@
+import { PhotoData } from '../types';
+import { openDatabase, requestToPromise, withStore } from './indexedDb';
+import { DEFAULT_ROOM } from './room';
+
+/*
+  On-device copy of this device's own photos, so the wall still works offline.
+  Photos held back by moderation (localOnly) live here too; they are never uploaded or shown on the wall.
+  Images are kept as Blobs (not base64 strings) next to their metadata.
+  Only photos the backend has confirmed ("synced") are ever evicted to free space.
+*/
+
+const DB_NAME = 'retro_snap_photo_store';
+const STORE_NAME = 'photos';
+
+// Old localStorage backup keys: 'retro_snap_gallery_backup' (default room) and 'retro_snap_gallery_backup:<room>'
+const LEGACY_STORAGE_KEY = 'retro_snap_gallery_backup';
+
+// Start evicting synced photos once the origin uses this share of its quota
+const QUOTA_HIGH_WATER = 0.8;
+
+// Same-tab listeners use this window event; other tabs hear about changes over a BroadcastChannel
+export const LOCAL_PHOTOS_EVENT = 'local-gallery-update';
+
+interface StoredPhoto {
+  id: string;
+  roomId: string;
+  photo: Omit<PhotoData, 'imageBlob'>;
+  image?: Blob;
+  synced: boolean;
+  storedAt: number;
+  size: number;
+}
+
+const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(DB_NAME) : null;
+if (channel) {
+  channel.onmessage = () => window.dispatchEvent(new Event(LOCAL_PHOTOS_EVENT));
+}
+
+const notifyChanged = () => {
+  window.dispatchEvent(new Event(LOCAL_PHOTOS_EVENT));
+  channel?.postMessage('changed');
+};
+
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+  const [header, base64] = dataUrl.includes(',') ? dataUrl.split(',') : ['', dataUrl];
+  const mimeType = header.match(/^data:([^;]+)/)?.[1] || 'image/jpeg';
+  const byteString = atob(base64);
+  const bytes = new Uint8Array(byteString.length);
+  for (let i = 0; i < byteString.length; i++) {
+    bytes[i] = byteString.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+};
+
+// Inline images become Blobs; remote URLs are kept as-is (nothing to store)
+const toStoredPhoto = (photo: PhotoData, synced: boolean): StoredPhoto => {
+  const { imageBlob, ...meta } = photo;
+  const image = imageBlob || (photo.imageUrl.startsWith('data:') ? dataUrlToBlob(photo.imageUrl) : undefined);
+  return {
+    id: photo.id,
+    roomId: photo.roomId || DEFAULT_ROOM,
+    photo: { ...meta, imageUrl: image ? '' : photo.imageUrl },
+    image,
+    synced,
+    storedAt: Date.now(),
+    size: (image?.size || 0) + 1024
+  };
+};
+
+const fromStoredPhoto = (record: StoredPhoto): PhotoData =>
+  record.image ? { ...record.photo, imageBlob: record.image } : record.photo as PhotoData;
+
+const readLegacyBackup = () => {
+  const legacy: PhotoData[] = [];
+  const keys: string[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key === LEGACY_STORAGE_KEY || key?.startsWith(`${LEGACY_STORAGE_KEY}:`)) keys.push(key);
+  }
+  keys.forEach(key => {
+    try {
+      const roomId = key.includes(':') ? key.split(':')[1] : DEFAULT_ROOM;
+      const photos: PhotoData[] = JSON.parse(localStorage.getItem(key) || '[]');
+      photos.forEach(photo => legacy.push({ ...photo, roomId: photo.roomId || roomId }));
+    } catch (e) { }
+  });
+  return { legacy, keys };
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+const getDb = () => {
+  if (!dbPromise) {
+    dbPromise = (async () => {
+      const db = await openDatabase(DB_NAME, 1, (db) => {
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+          store.createIndex('roomId', 'roomId');
+        }
+      });
+      await migrateLegacyBackup(db);
+      return db;
+    })();
+  }
+  return dbPromise;
+};
+
+/**
+ * One-time move of the old base64 localStorage backup into IndexedDB.
+ * We can't tell which of those photos reached the cloud, so they stay unsynced until a fetch sees them.
+ */
+const migrateLegacyBackup = async (db: IDBDatabase) => {
+  try {
+    const { legacy, keys } = readLegacyBackup();
+    if (keys.length === 0) return;
+    for (const photo of legacy) {
+      const existing = await withStore<StoredPhoto | undefined>(db, STORE_NAME, 'readonly', store => store.get(photo.id));
+      if (!existing) await withStore(db, STORE_NAME, 'readwrite', store => store.put(toStoredPhoto(photo, false)));
+    }
+    keys.forEach(key => localStorage.removeItem(key));
+    console.log(`Moved ${legacy.length} backed-up photos from localStorage to IndexedDB`);
+  } catch (e) {
+    console.warn("Local backup migration failed (will retry next load):", e);
+  }
+};
+
+const getAllRecords = async (db: IDBDatabase) =>
+  withStore<StoredPhoto[]>(db, STORE_NAME, 'readonly', store => store.getAll());
+
+// Oldest synced photos go first; unsynced ones are never touched
+const evictSynced = async (db: IDBDatabase, bytesToFree: number) => {
+  const candidates = (await getAllRecords(db))
+    .filter(record => record.synced)
+    .sort((a, b) => a.storedAt - b.storedAt);
+
+  let freed = 0;
+  for (const record of candidates) {
+    if (freed >= bytesToFree) break;
+    await withStore(db, STORE_NAME, 'readwrite', store => store.delete(record.id));
+    freed += record.size;
+  }
+  return freed;
+};
+
+const makeRoomFor = async (db: IDBDatabase, incomingBytes: number) => {
+  if (!navigator.storage?.estimate) return;
+  try {
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    const limit = quota * QUOTA_HIGH_WATER;
+    if (quota && usage + incomingBytes > limit) {
+      await evictSynced(db, usage + incomingBytes - limit);
+    }
+  } catch (e) { }
+};
+
+const isQuotaError = (e: any) => e?.name === 'QuotaExceededError';
+
+const putRecord = async (db: IDBDatabase, record: StoredPhoto) => {
+  await makeRoomFor(db, record.size);
+  try {
+    await withStore(db, STORE_NAME, 'readwrite', store => store.put(record));
+  } catch (e) {
+    if (!isQuotaError(e)) throw e;
+    // The estimate was off: free what we can and try once more
+    if (await evictSynced(db, record.size * 2) === 0) throw e;
+    await withStore(db, STORE_NAME, 'readwrite', store => store.put(record));
+  }
+};
+
+const loadRoomRecords = async (roomId: string): Promise<PhotoData[]> => {
+  try {
+    const db = await getDb();
+    const records = await withStore<StoredPhoto[]>(db, STORE_NAME, 'readonly', store => store.index('roomId').getAll(roomId));
+    return records.map(fromStoredPhoto).sort((a, b) => b.timestamp - a.timestamp);
+  } catch (e) {
+    return [];
+  }
+};
+
+/**
+ * This device's backed-up photos for a room, newest first
+ */
+export const loadLocalPhotos = async (roomId: string = DEFAULT_ROOM): Promise<PhotoData[]> =>
+  (await loadRoomRecords(roomId)).filter(photo => !photo.localOnly);
+
+/**
+ * This device's photos that moderation kept off the wall (only the author sees them), newest first
+ */
+export const loadLocalOnlyPhotos = async (roomId: string = DEFAULT_ROOM): Promise<PhotoData[]> =>
+  (await loadRoomRecords(roomId)).filter(photo => photo.localOnly);
+
+/**
+ * Back up a photo before it is sent to the backend (synced stays false until confirmed)
+ */
+export const saveLocalPhoto = async (photo: PhotoData, synced = false) => {
+  try {
+    const db = await getDb();
+    const existing = await withStore<StoredPhoto | undefined>(db, STORE_NAME, 'readonly', store => store.get(photo.id));
+    if (existing) return;
+    await putRecord(db, toStoredPhoto(photo, synced));
+    notifyChanged();
+  } catch (e) {
+    console.warn("Local backup failed, photo only lives in the cloud:", e);
+  }
+};
+
+export const updateLocalPhoto = async (id: string, updates: Partial<PhotoData>) => {
+  try {
+    const db = await getDb();
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    const store = tx.objectStore(STORE_NAME);
+    const record = await requestToPromise<StoredPhoto | undefined>(store.get(id));
+    if (!record) return;
+    const { imageBlob, imageUrl, ...metaUpdates } = updates;
+    await requestToPromise(store.put({ ...record, photo: { ...record.photo, ...metaUpdates } }));
+    notifyChanged();
+  } catch (e) { }
+};
+
+/**
+ * The backend has these photos, so their local copies may be evicted when space runs out
+ */
+export const markLocalPhotosSynced = async (ids: string[]) => {
+  if (ids.length === 0) return;
+  try {
+    const db = await getDb();
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    const store = tx.objectStore(STORE_NAME);
+    for (const id of ids) {
+      const record = await requestToPromise<StoredPhoto | undefined>(store.get(id));
+      if (record && !record.synced) await requestToPromise(store.put({ ...record, synced: true }));
+    }
+  } catch (e) { }
+};
+
+export const deleteLocalPhoto = async (id: string) => {
+  try {
+    const db = await getDb();
+    await withStore(db, STORE_NAME, 'readwrite', store => store.delete(id));
+    notifyChanged();
+  } catch (e) { }
+};
+
+export const clearLocalRoom = async (roomId: string = DEFAULT_ROOM) => {
+  try {
+    const db = await getDb();
+    const records = await withStore<StoredPhoto[]>(db, STORE_NAME, 'readonly', store => store.index('roomId').getAll(roomId));
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    const store = tx.objectStore(STORE_NAME);
+    await Promise.all(records.map(record => requestToPromise(store.delete(record.id))));
+    notifyChanged();
+  } catch (e) { }
+};
@@ -0,0 +1,136 @@
+import { ModerationVerdict } from '../types';
+
+// Every class the nsfwjs model reports
+export type NsfwClass = 'Drawing' | 'Hentai' | 'Neutral' | 'Porn' | 'Sexy';
+
+export interface NsfwPrediction {
+  className: string;
+  probability: number;
+}
+
+export interface ClassThresholds {
+  block?: number; // Probability above which the photo is rejected outright
+  review?: number; // Probability above which a human has to look at it
+}
+
+export interface ModerationPolicy {
+  thresholds: Partial<Record<NsfwClass, ClassThresholds>>;
+  // What to do when the classifier crashes on a photo. A model that never downloaded (offline venue,
+  // blocked CDN) is not a failure of the photo: it goes to review when closed, through when open.
+  failMode: 'open' | 'closed';
+  // Real (magic-byte) formats accepted from the camera / uploads
+  allowedMimeTypes: string[];
+}
+
+export type ModerationPreset = 'default' | 'kids' | 'adult';
+
+export const MODERATION_PRESETS: Record<ModerationPreset, ModerationPolicy> = {
+  // General public events
+  default: {
+    thresholds: {
+      Porn: { block: 0.7, review: 0.4 },
+      Hentai: { block: 0.7, review: 0.4 },
+      Sexy: { review: 0.7 },
+    },
+    failMode: 'closed',
+    allowedMimeTypes: ['image/jpeg', 'image/png', 'image/webp'],
+  },
+  // Kids' events: much stricter, suggestive content goes to review early
+  kids: {
+    thresholds: {
+      Porn: { block: 0.3, review: 0.1 },
+      Hentai: { block: 0.3, review: 0.1 },
+      Sexy: { block: 0.6, review: 0.3 },
+    },
+    failMode: 'closed',
+    allowedMimeTypes: ['image/jpeg', 'image/png', 'image/webp'],
+  },
+  // Adult parties: only block the obvious, keep the wall flowing if the model is down
+  adult: {
+    thresholds: {
+      Porn: { block: 0.85, review: 0.6 },
+      Hentai: { block: 0.85, review: 0.6 },
+    },
+    failMode: 'open',
+    allowedMimeTypes: ['image/jpeg', 'image/png', 'image/webp'],
+  },
+};
+
+const isPreset = (value: string): value is ModerationPreset => value in MODERATION_PRESETS;
+
+// Per class, so {"Sexy":{"block":0.9}} keeps the preset's Sexy review threshold
+const mergeThresholds = (base: ModerationPolicy['thresholds'], overrides: ModerationPolicy['thresholds'] = {}) => {
+  const merged = { ...base };
+  (Object.keys(overrides) as NsfwClass[]).forEach(className => {
+    merged[className] = { ...base[className], ...overrides[className] };
+  });
+  return merged;
+};
+
+/**
+ * Reads MODERATION_POLICY: either a preset name ("kids") or a JSON object
+ * merged over the default preset (e.g. {"failMode":"open","thresholds":{"Sexy":{"block":0.9}}})
+ */
+export const loadModerationPolicy = (raw: string | undefined = process.env.MODERATION_POLICY): ModerationPolicy => {
+  const value = (raw || '').trim();
+  if (!value) return MODERATION_PRESETS.default;
+  if (isPreset(value)) return MODERATION_PRESETS[value];
+
+  try {
+    const parsed = JSON.parse(value) as Partial<ModerationPolicy> & { preset?: ModerationPreset };
+    const base = parsed.preset && isPreset(parsed.preset) ? MODERATION_PRESETS[parsed.preset] : MODERATION_PRESETS.default;
+    return {
+      thresholds: mergeThresholds(base.thresholds, parsed.thresholds),
+      failMode: parsed.failMode === 'open' || parsed.failMode === 'closed' ? parsed.failMode : base.failMode,
+      allowedMimeTypes: Array.isArray(parsed.allowedMimeTypes) ? parsed.allowedMimeTypes : base.allowedMimeTypes,
+    };
+  } catch (e) {
+    console.warn("Invalid MODERATION_POLICY, using default policy:", e);
+    return MODERATION_PRESETS.default;
+  }
+};
+
+const formatScore = (className: string, probability: number) => `${className}: ${(probability * 100).toFixed(1)}%`;
+
+/**
+ * Turns raw classifier output into a verdict. Pure, so it can be tested without a model.
+ */
+export const evaluatePredictions = (predictions: NsfwPrediction[], policy: ModerationPolicy): ModerationVerdict => {
+  const scores: Record<string, number> = {};
+  predictions.forEach(p => { scores[p.className] = p.probability; });
+
+  let review: NsfwPrediction | null = null;
+
+  // Strongest signal wins
+  const ranked = predictions.slice().sort((a, b) => b.probability - a.probability);
+  for (const prediction of ranked) {
+    const limits = policy.thresholds[prediction.className as NsfwClass];
+    if (!limits) continue;
+
+    if (limits.block !== undefined && prediction.probability > limits.block) {
+      console.warn(`Safety Check Failed: Inappropriate content detected (${formatScore(prediction.className, prediction.probability)})`);
+      return { status: 'blocked', scores, reason: "Inappropriate content detected" };
+    }
+    if (!review && limits.review !== undefined && prediction.probability > limits.review) {
+      review = prediction;
+    }
+  }
+
+  if (review) {
+    return { status: 'needs-review', scores, reason: `Needs a quick review (${formatScore(review.className, review.probability)})` };
+  }
+
+  return { status: 'allowed', scores };
+};
+
+// Verdict used when the safety model couldn't be loaded at all
+export const unavailableVerdict = (policy: ModerationPolicy, reason: string): ModerationVerdict =>
+  policy.failMode === 'open'
+    ? { status: 'allowed', scores: {}, reason }
+    : { status: 'needs-review', scores: {}, reason };
+
+// Verdict used when the classifier failed on this photo
+export const failureVerdict = (policy: ModerationPolicy, reason: string): ModerationVerdict =>
+  policy.failMode === 'open'
+    ? { status: 'allowed', scores: {}, reason }
+    : { status: 'blocked', scores: {}, reason };
@@ -0,0 +1,247 @@
+import { PhotoData } from '../types';
+import { PermissionDeniedError, uploadAndSavePhoto } from './galleryBackend';
+import { ProcessedImage } from './imageProcessing';
+import { getGalleryBackend } from './gallery';
+import { openDatabase, withStore } from './indexedDb';
+import { backoffDelay } from './backoff';
+import { DEFAULT_ROOM } from './room';
+
+const DB_NAME = 'retro_snap_outbox';
+const STORE_NAME = 'entries';
+
+const RETRY_BASE_MS = 5000;
+const RETRY_MAX_MS = 5 * 60 * 1000;
+
+/**
+ * Everything this device still owes the backend for one photo (one entry per photo id).
+ * Edits made before the upload went through are folded into the upload itself.
+ */
+export interface OutboxEntry {
+  photoId: string;
+  roomId: string;
+  // Photo that never reached the backend
+  upload?: {
+    imageData: string;
+    thumbnailData?: string; // Missing on entries queued before thumbnails existed
+    meta: Omit<PhotoData, 'imageUrl' | 'timestamp'>;
+    takenAt: number;
+  };
+  // Edits still to be applied with updatePhoto
+  updates?: Partial<PhotoData>;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+}
+
+// In-memory mirror of the store; IndexedDB only makes it survive reloads
+const entries = new Map<string, OutboxEntry>();
+const listeners = new Set<(entries: OutboxEntry[]) => void>();
+// Photos currently being delivered; edits to them must not be folded into the upload
+const inFlight = new Set<string>();
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+const getDb = () => {
+  if (!dbPromise) {
+    dbPromise = openDatabase(DB_NAME, 1, (db) => {
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        db.createObjectStore(STORE_NAME, { keyPath: 'photoId' });
+      }
+    });
+  }
+  return dbPromise;
+};
+
+let loadPromise: Promise<void> | null = null;
+const ensureLoaded = () => {
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      try {
+        const db = await getDb();
+        const stored = await withStore<OutboxEntry[]>(db, STORE_NAME, 'readonly', store => store.getAll());
+        stored.forEach(entry => {
+          if (!entries.has(entry.photoId)) entries.set(entry.photoId, entry);
+        });
+        notify();
+      } catch (e) {
+        console.warn("Outbox could not be read from IndexedDB (retries won't survive a reload):", e);
+      }
+    })();
+  }
+  return loadPromise;
+};
+
+const persist = async (entry: OutboxEntry) => {
+  try {
+    const db = await getDb();
+    await withStore(db, STORE_NAME, 'readwrite', store => store.put(entry));
+  } catch (e) {
+    console.warn("Outbox entry not persisted:", e);
+  }
+};
+
+const forget = async (photoId: string) => {
+  entries.delete(photoId);
+  notify();
+  try {
+    const db = await getDb();
+    await withStore(db, STORE_NAME, 'readwrite', store => store.delete(photoId));
+  } catch (e) { }
+};
+
+const notify = () => {
+  const snapshot = Array.from(entries.values());
+  listeners.forEach(listener => listener(snapshot));
+};
+
+const save = (entry: OutboxEntry) => {
+  entries.set(entry.photoId, entry);
+  notify();
+  return persist(entry);
+};
+
+/**
+ * Queue a photo whose upload failed. Re-queuing the same photo replaces the earlier attempt.
+ */
+export const enqueueUpload = async (image: ProcessedImage, meta: Omit<PhotoData, 'imageUrl' | 'timestamp'>) => {
+  await ensureLoaded();
+  const existing = entries.get(meta.id);
+  await save({
+    photoId: meta.id,
+    roomId: meta.roomId || DEFAULT_ROOM,
+    upload: { ...image, meta: { ...meta, ...existing?.updates }, takenAt: existing?.upload?.takenAt || Date.now() },
+    attempts: 0,
+    nextAttemptAt: Date.now() + RETRY_BASE_MS
+  });
+  scheduleFlush();
+};
+
+/**
+ * Queue an edit. Later edits to the same photo are merged into a single pending update.
+ */
+export const enqueueUpdate = async (roomId: string, photoId: string, updates: Partial<PhotoData>) => {
+  await ensureLoaded();
+  const existing = entries.get(photoId);
+  if (existing?.upload && !inFlight.has(photoId)) {
+    // Not uploaded yet: the edit simply becomes part of the upload
+    await save({ ...existing, upload: { ...existing.upload, meta: { ...existing.upload.meta, ...updates } } });
+  } else {
+    await save({
+      ...existing,
+      photoId,
+      roomId,
+      updates: { ...existing?.updates, ...updates },
+      attempts: existing?.attempts || 0,
+      nextAttemptAt: existing?.nextAttemptAt || Date.now() + RETRY_BASE_MS
+    });
+  }
+  scheduleFlush();
+};
+
+// Edits to queued photos must go through the outbox too, or they could overtake the upload
+export const isQueued = (photoId: string) => entries.has(photoId);
+
+// Photo as it should appear on this device until the upload goes through
+export const outboxEntryToPhoto = (entry: OutboxEntry): PhotoData | null =>
+  entry.upload
+    ? { ...entry.upload.meta, imageUrl: entry.upload.imageData, thumbnailUrl: entry.upload.thumbnailData, timestamp: entry.upload.takenAt }
+    : null;
+
+export const subscribeToOutbox = (listener: (entries: OutboxEntry[]) => void) => {
+  listeners.add(listener);
+  listener(Array.from(entries.values()));
+  ensureLoaded();
+  return () => { listeners.delete(listener); };
+};
+
+// --- Retry loop ---
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+let isFlushing = false;
+let flushAgain = false;
+
+const deliver = async (entry: OutboxEntry) => {
+  const backend = getGalleryBackend(entry.roomId);
+  let remaining = entry;
+  if (remaining.upload) {
+    await uploadAndSavePhoto(backend, remaining.upload, remaining.upload.meta);
+    // Never insert twice, even if the follow-up edit fails
+    remaining = { ...remaining, upload: undefined };
+    if (remaining.updates) await save(remaining);
+  }
+  if (remaining.updates) {
+    await backend.updatePhoto(remaining.photoId, remaining.updates);
+  }
+};
+
+export const flushOutbox = async () => {
+  await ensureLoaded();
+  if (isFlushing) {
+    flushAgain = true;
+    return;
+  }
+  isFlushing = true;
+  try {
+    const now = Date.now();
+    for (const entry of Array.from(entries.values())) {
+      if (entry.nextAttemptAt > now) continue;
+      inFlight.add(entry.photoId);
+      try {
+        await deliver(entry);
+        const latest = entries.get(entry.photoId);
+        if (latest && latest.updates !== entry.updates) {
+          // Edited while we were delivering: keep only the edits
+          await save({ ...latest, upload: undefined, attempts: 0, nextAttemptAt: Date.now() });
+        } else {
+          await forget(entry.photoId);
+        }
+      } catch (e: any) {
+        if (e instanceof PermissionDeniedError) {
+          // The server will never accept this edit; drop it instead of retrying forever
+          console.warn(`⚠️ Outbox edit for ${entry.photoId} rejected:`, e.message);
+          await forget(entry.photoId);
+          continue;
+        }
+        const current = entries.get(entry.photoId) || entry;
+        const attempts = current.attempts + 1;
+        console.warn(`Outbox retry ${attempts} failed for ${entry.photoId}:`, e?.message || e);
+        await save({ ...current, attempts, nextAttemptAt: Date.now() + backoffDelay(attempts, RETRY_BASE_MS, RETRY_MAX_MS), lastError: String(e?.message || e) });
+      } finally {
+        inFlight.delete(entry.photoId);
+      }
+    }
+  } finally {
+    isFlushing = false;
+  }
+  if (flushAgain) {
+    flushAgain = false;
+    return flushOutbox();
+  }
+  scheduleFlush();
+};
+
+// Wake up for the next entry that is due
+const scheduleFlush = () => {
+  if (flushTimer) clearTimeout(flushTimer);
+  flushTimer = null;
+  if (entries.size === 0) return;
+  const nextDue = Math.min(...Array.from(entries.values()).map(e => e.nextAttemptAt));
+  flushTimer = setTimeout(flushOutbox, Math.max(0, nextDue - Date.now()));
+};
+
+/**
+ * Start retrying queued uploads and edits (on load, when due, and as soon as we're back online)
+ */
+export const startOutbox = () => {
+  const handleOnline = () => {
+    // Connectivity is back: don't wait out the backoff
+    entries.forEach(entry => { entry.nextAttemptAt = Date.now(); });
+    flushOutbox();
+  };
+  window.addEventListener('online', handleOnline);
+  flushOutbox();
+
+  return () => {
+    window.removeEventListener('online', handleOnline);
+    if (flushTimer) clearTimeout(flushTimer);
+    flushTimer = null;
+  };
+};
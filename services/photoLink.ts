@@ -0,0 +1,21 @@
+// Deep links to a single photo: ?photo=<id> opens it in the lightbox
+const PHOTO_PARAM = 'photo';
+
+/**
+ * Photo id from the URL, if the link points at one
+ */
+export const getPhotoIdFromUrl = (): string | null =>
+  new URLSearchParams(window.location.search).get(PHOTO_PARAM) || null;
+
+/**
+ * Put the photo in the URL. Opening pushes a history entry (so Back closes the lightbox);
+ * moving between photos replaces it (so Back doesn't step through every photo seen).
+ */
+export const setPhotoIdInUrl = (photoId: string | null, mode: 'push' | 'replace' = 'replace') => {
+  const url = new URL(window.location.href);
+  if (photoId) url.searchParams.set(PHOTO_PARAM, photoId);
+  else url.searchParams.delete(PHOTO_PARAM);
+  if (url.href === window.location.href) return;
+  if (mode === 'push') window.history.pushState({}, '', url.toString());
+  else window.history.replaceState(window.history.state, '', url.toString());
+};
@@ -0,0 +1,37 @@
+// Classic photobooth strip: 4 square frames stacked on white paper, exactly 1:4 so it fits its polaroid slot
+export const STRIP_FRAME_COUNT = 4;
+
+const FRAME_SIZE = 480;
+const PADDING = 24;
+const GAP = 16;
+const FOOTER = 120;
+
+export const STRIP_WIDTH = FRAME_SIZE + PADDING * 2; // 528
+export const STRIP_HEIGHT = PADDING + FRAME_SIZE * STRIP_FRAME_COUNT + GAP * (STRIP_FRAME_COUNT - 1) + FOOTER; // 2112
+
+/**
+ * Draw the frames (center-cropped to squares) into one vertical strip on the target canvas
+ */
+export const composePhotoStrip = (target: HTMLCanvasElement, frames: HTMLCanvasElement[], footerText: string) => {
+  target.width = STRIP_WIDTH;
+  target.height = STRIP_HEIGHT;
+  const ctx = target.getContext('2d');
+  if (!ctx) return;
+
+  ctx.fillStyle = '#fdfdfd';
+  ctx.fillRect(0, 0, STRIP_WIDTH, STRIP_HEIGHT);
+
+  frames.slice(0, STRIP_FRAME_COUNT).forEach((frame, index) => {
+    const side = Math.min(frame.width, frame.height);
+    const sx = (frame.width - side) / 2;
+    const sy = (frame.height - side) / 2;
+    const y = PADDING + index * (FRAME_SIZE + GAP);
+    ctx.drawImage(frame, sx, sy, side, side, PADDING, y, FRAME_SIZE, FRAME_SIZE);
+  });
+
+  ctx.fillStyle = '#5d4037';
+  ctx.font = "44px 'Gochi Hand', cursive";
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(footerText, STRIP_WIDTH / 2, STRIP_HEIGHT - FOOTER / 2);
+};
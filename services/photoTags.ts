@@ -0,0 +1,27 @@
+import { PhotoData } from '../types';
+
+const MAX_TAGS = 5;
+
+/**
+ * Clean up tags from the caption provider: lowercase, no '#', no duplicates, at most MAX_TAGS
+ */
+export const normalizeTags = (tags: unknown): string[] => {
+  if (!Array.isArray(tags)) return [];
+  const cleaned = tags
+    .filter((tag): tag is string => typeof tag === 'string')
+    .map(tag => tag.trim().toLowerCase().replace(/^#+/, '').replace(/\s+/g, ' ').slice(0, 24))
+    .filter(Boolean);
+  return Array.from(new Set(cleaned)).slice(0, MAX_TAGS);
+};
+
+/**
+ * Tags on the wall, most used first (ties alphabetical)
+ */
+export const popularTags = (photos: PhotoData[], limit: number = 12): string[] => {
+  const counts = new Map<string, number>();
+  photos.forEach(photo => photo.tags?.forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1)));
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, limit)
+    .map(([tag]) => tag);
+};
@@ -0,0 +1,54 @@
+// Every event gets its own wall. Photos from before rooms existed belong to the default room.
+export const DEFAULT_ROOM = 'main';
+
+const RECENT_ROOMS_KEY = 'retro_snap_recent_rooms';
+const MAX_RECENT_ROOMS = 5;
+
+// Lowercase slug, safe for URLs, storage keys and channel names
+export const normalizeRoomId = (value: string) =>
+  value.trim().toLowerCase().replace(/[^a-z0-9-]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40);
+
+/**
+ * Room from the URL: /r/<room> or ?room=<room>
+ */
+export const getRoomFromUrl = (): string => {
+  const pathMatch = window.location.pathname.match(/^\/r\/([^/]+)/);
+  const fromPath = pathMatch ? decodeURIComponent(pathMatch[1]) : '';
+  const fromQuery = new URLSearchParams(window.location.search).get('room') || '';
+  return normalizeRoomId(fromPath || fromQuery) || DEFAULT_ROOM;
+};
+
+/**
+ * Push the room into the URL so it can be shared (keeps the /r/ path style if already used)
+ */
+export const setRoomInUrl = (roomId: string) => {
+  const url = new URL(window.location.href);
+  if (url.pathname.startsWith('/r/')) {
+    url.pathname = roomId === DEFAULT_ROOM ? '/' : `/r/${encodeURIComponent(roomId)}`;
+  } else if (roomId === DEFAULT_ROOM) {
+    url.searchParams.delete('room');
+  } else {
+    url.searchParams.set('room', roomId);
+  }
+  window.history.pushState({}, '', url.toString());
+};
+
+// Photos saved before rooms existed have no roomId
+export const isInRoom = (photo: { roomId?: string }, roomId: string) =>
+  (photo.roomId || DEFAULT_ROOM) === roomId;
+
+export const getRecentRooms = (): string[] => {
+  try {
+    const stored = localStorage.getItem(RECENT_ROOMS_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+export const rememberRoom = (roomId: string) => {
+  try {
+    const updated = [roomId, ...getRecentRooms().filter(r => r !== roomId)].slice(0, MAX_RECENT_ROOMS);
+    localStorage.setItem(RECENT_ROOMS_KEY, JSON.stringify(updated));
+  } catch (e) { }
+};
@@ -1,5 +1,22 @@
 // @ts-ignore
 import * as nsfwjs from 'https://cdn.jsdelivr.net/npm/@nsfw-filter/nsfwjs@2.0.0/+esm';
+import { ModerationVerdict } from '../types';
+import { ModerationPolicy, NsfwPrediction, evaluatePredictions, failureVerdict, loadModerationPolicy, unavailableVerdict } from './moderationPolicy';
+
+// Anything that can score an image; the nsfwjs model in the app, a stub in tests
+export interface ImageClassifier {
+    classify: (base64Image: string) => Promise<NsfwPrediction[]>;
+}
+
+/**
+ * The classifier has no model to run (download failed, e.g. offline); not a problem with the photo itself
+ */
+export class ModelUnavailableError extends Error {
+    constructor(message: string = "Safety model unavailable") {
+        super(message);
+        this.name = 'ModelUnavailableError';
+    }
+}
 
 let model: any = null;
 
@@ -16,66 +33,103 @@ export const preloadSafetyModel = async () => {
     }
 };
 
+// nsfwjs-backed classifier (lazy-loads the model on first use)
+export const nsfwClassifier: ImageClassifier = {
+    classify: async (base64Image) => {
+        if (!model) {
+            await preloadSafetyModel();
+        }
+        if (!model) throw new ModelUnavailableError();
+
+        const img = new Image();
+        img.src = base64Image;
+        await new Promise((resolve, reject) => {
+            img.onload = resolve;
+            img.onerror = reject;
+        });
+
+        return await model.classify(img);
+    }
+};
+
 // Helper to convert base64 to Blob
 const base64ToBlob = async (base64: string): Promise<Blob> => {
     const res = await fetch(base64);
     return await res.blob();
 };
 
-export const isImageSafe = async (base64Image: string): Promise<boolean> => {
-    try {
-        // 1. Convert Base64 to Blob for efficient byte reading
-        const blob = await base64ToBlob(base64Image);
-
-        // 2. Magic Byte Check (Real MIME type verification)
-        const arr = new Uint8Array(await blob.slice(0, 4).arrayBuffer());
-        const header = Array.from(arr).map(b => b.toString(16).padStart(2, '0')).join('');
-        
-        // Acceptable signatures:
-        // ffd8ffe0, ffd8ffee, ffd8ffdb (JPEG variations)
-        // 89504e47 (PNG)
-        // RetroCamera outputs JPEG, so we strictly look for 'ffd8' start or png signature
-        const isJpeg = header.startsWith('ffd8');
-        const isPng = header === '89504e47';
-
-        if (!isJpeg && !isPng) {
-            console.warn(`Safety Check Failed: Invalid file signature (${header})`);
-            return false;
-        }
+const HEIC_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis'];
+const HEIF_BRANDS = ['mif1', 'msf1'];
 
-        // 3. NSFW Content Check
-        if (!model) {
-            await preloadSafetyModel();
+/**
+ * Real MIME type from the file's magic bytes (ignores whatever the data URL claims)
+ */
+export const detectImageMimeType = (bytes: Uint8Array): string | null => {
+    const header = Array.from(bytes.slice(0, 12)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+    // ffd8ffe0, ffd8ffee, ffd8ffdb... (JPEG variations)
+    if (header.startsWith('ffd8')) return 'image/jpeg';
+    if (header.startsWith('89504e47')) return 'image/png';
+    // RIFF....WEBP
+    if (header.startsWith('52494646') && header.slice(16, 24) === '57454250') return 'image/webp';
+    if (header.startsWith('47494638')) return 'image/gif';
+    // ....ftyp + HEIF brand (iPhone photos)
+    if (header.slice(8, 16) === '66747970') {
+        const brand = String.fromCharCode(...bytes.slice(8, 12));
+        if (HEIC_BRANDS.includes(brand)) return 'image/heic';
+        if (HEIF_BRANDS.includes(brand)) return 'image/heif';
+    }
+    return null;
+};
+
+interface ModeratorOptions {
+    policy?: ModerationPolicy;
+    classifier?: ImageClassifier;
+}
+
+/**
+ * Builds a moderation function for a given policy and classifier
+ */
+export const createModerator = ({ policy = loadModerationPolicy(), classifier = nsfwClassifier }: ModeratorOptions = {}) => {
+    return async (base64Image: string): Promise<ModerationVerdict> => {
+        // 1. Magic Byte Check (Real MIME type verification)
+        try {
+            const blob = await base64ToBlob(base64Image);
+            const mimeType = detectImageMimeType(new Uint8Array(await blob.slice(0, 12).arrayBuffer()));
+
+            if (!mimeType || !policy.allowedMimeTypes.includes(mimeType)) {
+                console.warn(`Safety Check Failed: Invalid file signature (${mimeType || 'unknown'})`);
+                return { status: 'blocked', scores: {}, reason: "Unsupported image format" };
+            }
+        } catch (error) {
+            console.error("Safety check could not read the image:", error);
+            return { status: 'blocked', scores: {}, reason: "Unreadable image" };
         }
 
-        if (model) {
-            const img = new Image();
-            img.src = base64Image;
-            await new Promise((resolve, reject) => {
-                img.onload = resolve;
-                img.onerror = reject;
-            });
-
-            const predictions = await model.classify(img);
-            // Check for Porn or Hentai with high confidence (> 70%)
-            const nsfwScore = predictions.find((p: any) => 
-                (p.className === 'Porn' || p.className === 'Hentai') && p.probability > 0.7
-            );
-
-            if (nsfwScore) {
-                console.warn(`Safety Check Failed: Inappropriate content detected (${nsfwScore.className}: ${(nsfwScore.probability * 100).toFixed(1)}%)`);
-                return false;
+        // 2. NSFW Content Check
+        try {
+            const predictions = await classifier.classify(base64Image);
+            return evaluatePredictions(predictions, policy);
+        } catch (error) {
+            if (error instanceof ModelUnavailableError) {
+                console.warn("⚠️ Safety model unavailable, using the policy's offline verdict");
+                return unavailableVerdict(policy, "Safety check offline");
             }
+            console.error("Safety check encountered an error:", error);
+            // Fail open or closed depending on the event's policy
+            return failureVerdict(policy, "Safety check unavailable");
         }
+    };
+};
 
-        return true;
-    } catch (error) {
-        console.error("Safety check encountered an error:", error);
-        // Fail-safe: If check crashes, prevent upload to be safe, 
-        // OR return true to allow if you prefer usability over strictness.
-        // Returning false is safer for a public app.
-        return false;
-    }
+/**
+ * Runs the full safety check with the configured policy and returns a structured verdict
+ */
+export const moderateImage = createModerator();
+
+export const isImageSafe = async (base64Image: string): Promise<boolean> => {
+    const verdict = await moderateImage(base64Image);
+    return verdict.status === 'allowed';
 };
 
 // Start loading immediately
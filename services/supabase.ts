@@ -1,6 +1,12 @@
 
 import { createClient } from '@supabase/supabase-js';
-import { PhotoData } from '../types';
+import { CaptionLanguage, CaptionStyle, FilmFilterId, PhotoData, PhotoLayout, PhotoStatus } from '../types';
+import { GalleryBackend, GalleryConnectionState, GallerySubscribeOptions, PermissionDeniedError, createSubscriptionRegistry, filterForViewer, isPubliclyVisible, thumbnailImageId } from './galleryBackend';
+import { getDeviceId } from './identity';
+import { DEFAULT_ROOM, isInRoom } from './room';
+import { createBackoffPoller } from './backoff';
+import { dataUrlMimeType } from './imageProcessing';
+import { LOCAL_PHOTOS_EVENT, clearLocalRoom, deleteLocalPhoto, loadLocalPhotos, markLocalPhotosSynced, saveLocalPhoto, updateLocalPhoto } from './localPhotoStore';
 
 /* 
    ===========================================================================
@@ -14,6 +20,31 @@ import { PhotoData } from '../types';
    alter table photos add column if not exists author_name text;
    alter table photos add column if not exists bio text;
    alter table photos add column if not exists social_handle text;
+   alter table photos add column if not exists status text default 'approved';
+   alter table photos add column if not exists author_id uuid;
+   alter table photos add column if not exists room_id text default 'main';
+   alter table photos add column if not exists filter text;
+   alter table photos add column if not exists layout text;
+   alter table photos add column if not exists thumbnail_url text;
+   alter table photos add column if not exists caption_style text;
+   alter table photos add column if not exists caption_language text;
+   alter table photos add column if not exists caption_offline boolean;
+   alter table photos add column if not exists alt_text text;
+   alter table photos add column if not exists tags text[];
+   create index if not exists photos_room_created_idx on photos (room_id, created_at desc);
+
+   -- Delta sync: every insert/update bumps updated_at so clients only fetch what changed
+   alter table photos add column if not exists updated_at timestamptz default now();
+   create index if not exists photos_room_updated_idx on photos (room_id, updated_at);
+   create or replace function touch_photos_updated_at() returns trigger as $$
+   begin
+     new.updated_at = now();
+     return new;
+   end;
+   $$ language plpgsql;
+   drop trigger if exists photos_touch_updated_at on photos;
+   create trigger photos_touch_updated_at before update on photos
+     for each row execute function touch_photos_updated_at();
 
    ----------------------------------------------------------------
    -- 2. Create Table (Only if starting fresh)
@@ -21,6 +52,7 @@ import { PhotoData } from '../types';
    create table if not exists photos (
      id uuid primary key,
      image_url text not null,
+     thumbnail_url text, -- small copy for the grid / film strip
      caption text,
      author_name text,
      bio text,
@@ -30,7 +62,18 @@ import { PhotoData } from '../types';
      z_index numeric,
      x numeric,
      y numeric,
-     created_at timestamptz default now()
+     status text default 'approved', -- pending | approved | hidden | rejected
+     author_id uuid, -- auth.uid() of the (anonymous) session that took the photo
+     room_id text default 'main', -- event / room the photo belongs to
+     filter text, -- film stock baked in at capture (portra, trix, ...)
+     layout text, -- single | strip (photobooth)
+     caption_style text, -- nostalgic | funny | poetic | haiku | event
+     caption_language text, -- en, ne, hi, ...
+     caption_offline boolean, -- caption is an offline phrase (the caption service failed)
+     alt_text text, -- descriptive alt text for screen readers
+     tags text[], -- lowercase keywords (pinboard filter chips)
+     created_at timestamptz default now(),
+     updated_at timestamptz default now() -- bumped by the trigger in step 1
    );
 
    ----------------------------------------------------------------
@@ -43,15 +86,48 @@ import { PhotoData } from '../types';
    ----------------------------------------------------------------
    alter table photos enable row level security;
    
-   -- Allow INSERT/SELECT
-   create policy "Public view" on photos for select to anon using (true);
-   create policy "Public insert" on photos for insert to anon with check (true);
+   -- Every guest gets an anonymous session (Authentication > Providers > enable "Anonymous sign-ins"),
+   -- so guests use the 'authenticated' role and auth.uid() identifies their device.
+
+   -- SELECT: approved photos for everyone; pending/hidden/rejected only for their author and admins
+   -- (the REST API and realtime both go through this, not just the app's own filters)
+   drop policy if exists "Public view" on photos;
+   create policy "Public view" on photos for select to anon, authenticated
+     using (status = 'approved' or status is null or author_id = auth.uid()
+            or (auth.jwt() -> 'app_metadata' ->> 'role') = 'admin');
+   create policy "Public insert" on photos for insert to anon, authenticated with check (true);
    
-   -- Allow UPDATE (Crucial for editing Bio/Name)
-   create policy "Public update" on photos for update to anon using (true);
-
-   -- Allow DELETE (Crucial for Delete/Reset)
-   create policy "Public delete" on photos for delete to anon using (true);
+   -- Allow UPDATE only by the photo's author (Bio/Social/Caption) or an admin account (moderation status,
+   -- role granted as shown for deletes below). Authors can't hand their photo to someone else...
+   drop policy if exists "Public update" on photos;
+   drop policy if exists "Author update" on photos;
+   create policy "Author update" on photos for update to authenticated
+     using (author_id = auth.uid() or (auth.jwt() -> 'app_metadata' ->> 'role') = 'admin')
+     with check (author_id = auth.uid() or (auth.jwt() -> 'app_metadata' ->> 'role') = 'admin');
+   -- ...and only admins may change status (otherwise an author could approve their own pending photo)
+   create or replace function guard_photo_status() returns trigger as $$
+   begin
+     if new.status is distinct from old.status
+        and coalesce(auth.jwt() -> 'app_metadata' ->> 'role', '') <> 'admin' then
+       raise exception 'Only admins can change the moderation status' using errcode = '42501';
+     end if;
+     return new;
+   end;
+   $$ language plpgsql;
+   drop trigger if exists photos_guard_status on photos;
+   create trigger photos_guard_status before update on photos
+     for each row execute function guard_photo_status();
+   -- NOTE: moderators unlocked with ADMIN_PASSCODE have no admin role, so their approve/hide/reject
+   -- changes are rejected (the Review Queue shows an error). Sign in with an admin account to moderate.
+
+   -- Allow DELETE only for signed-in admins (Admin Console: delete / bulk delete / reset event).
+   -- Give a staff account the role with:
+   --   update auth.users set raw_app_meta_data = raw_app_meta_data || '{"role":"admin"}' where email = 'staff@example.com';
+   drop policy if exists "Public delete" on photos;
+   create policy "Admin delete" on photos for delete to authenticated
+     using ((auth.jwt() -> 'app_metadata' ->> 'role') = 'admin');
+   -- NOTE: ADMIN_PASSCODE alone only hides the UI. If you rely on the passcode instead of
+   -- admin accounts, you must keep an anon delete policy and accept that it is not secure.
 
    ----------------------------------------------------------------
    -- 5. Storage Bucket
@@ -61,7 +137,8 @@ import { PhotoData } from '../types';
    
    create policy "Public Access" on storage.objects for select to public using ( bucket_id = 'retro-uploads' );
    create policy "Public Upload" on storage.objects for insert to public with check ( bucket_id = 'retro-uploads' );
-   create policy "Public Delete" on storage.objects for delete to public using ( bucket_id = 'retro-uploads' );
+   create policy "Admin Delete" on storage.objects for delete to authenticated
+     using ( bucket_id = 'retro-uploads' and (auth.jwt() -> 'app_metadata' ->> 'role') = 'admin' );
    ===========================================================================
 */
 
@@ -71,65 +148,88 @@ const supabaseKey = process.env.VITE_SUPABASE_ANON_KEY || 'eyJhbGciOiJIUzI1NiIsI
 
 export const supabase = createClient(supabaseUrl, supabaseKey);
 
-const LOCAL_STORAGE_KEY = 'retro_snap_gallery_backup';
+// Staff sign-in gets its own client (and stored session), so it never replaces the guest's
+// anonymous session: after locking the console this device can still edit its own photos
+export const supabaseAdmin = createClient(supabaseUrl, supabaseKey, {
+  auth: { storageKey: 'retro_snap_admin_auth' }
+});
+
+const hasAdminAccount = async () => {
+  try {
+    const { data } = await supabaseAdmin.auth.getSession();
+    return data.session?.user?.app_metadata?.role === 'admin';
+  } catch (e) {
+    return false;
+  }
+};
+
+// Moderation and deletes go out as the admin account when staff is signed in, otherwise as the guest
+const moderationClient = async () => (await hasAdminAccount()) ? supabaseAdmin : supabase;
+
+// Rows per page when loading the pinboard (newest first)
+const PAGE_SIZE = 50;
+
+// Fallback polling while the realtime channel is down: starts fast, backs off when nothing changes
+const POLL_BASE_MS = 2000;
+const POLL_MAX_MS = 60000;
 
 // --- Types based on your DB Schema ---
 interface DBPhoto {
   id: string;
   image_url: string;
+  thumbnail_url?: string;
   caption: string;
   author_name?: string;
   bio?: string;
   social_handle?: string;
+  author_id?: string;
+  room_id?: string;
   date: string;
   rotation: number;
   z_index: number;
   x: number;
   y: number;
+  status?: PhotoStatus;
+  filter?: FilmFilterId;
+  layout?: PhotoLayout;
+  caption_style?: CaptionStyle;
+  caption_language?: CaptionLanguage;
+  caption_offline?: boolean;
+  alt_text?: string;
+  tags?: string[];
   created_at: string;
+  updated_at?: string;
 }
 
-// --- Local Storage Helpers (The Safety Net) ---
-const getLocalPhotos = (): PhotoData[] => {
-  try {
-    const stored = localStorage.getItem(LOCAL_STORAGE_KEY);
-    return stored ? JSON.parse(stored) : [];
-  } catch (e) {
-    return [];
-  }
-};
+// --- Author Identity ---
+let authorIdPromise: Promise<string> | null = null;
 
-const saveLocalBackup = (photo: PhotoData) => {
-  try {
-      const current = getLocalPhotos();
-      // Prevent duplicates
-      if (!current.some(p => p.id === photo.id)) {
-        const updated = [photo, ...current];
-        // Enforce a limit to prevent QuotaExceededError
-        if (updated.length > 50) updated.length = 50; 
-        localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(updated));
-        // Dispatch local event for same-tab updates
-        window.dispatchEvent(new Event('local-gallery-update'));
-      }
-  } catch (e) {
-      console.warn("Local storage full or disabled, skipping backup");
-      // Optional: Clear old items if full
+/**
+ * Anonymous Supabase session id (matches auth.uid() in the RLS policies).
+ * Falls back to a local device id when anonymous sign-ins are disabled.
+ */
+export const getAuthorId = (): Promise<string> => {
+  if (!authorIdPromise) {
+    authorIdPromise = (async () => {
       try {
-         const current = getLocalPhotos();
-         if (current.length > 10) {
-            const shrunk = current.slice(0, 10);
-            localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(shrunk));
-         }
-      } catch (e2) {}
+        const { data } = await supabase.auth.getSession();
+        if (data.session?.user) return data.session.user.id;
+
+        const { data: anon, error } = await supabase.auth.signInAnonymously();
+        if (error) throw error;
+        if (anon.user) return anon.user.id;
+      } catch (e: any) {
+        console.warn("⚠️ Anonymous sign-in unavailable, using device id (edits won't pass RLS):", e.message || e);
+      }
+      return getDeviceId();
+    })();
   }
+  return authorIdPromise;
 };
 
-const deleteLocalPhoto = (id: string) => {
-  const current = getLocalPhotos();
-  const updated = current.filter(p => p.id !== id);
-  localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(updated));
-  window.dispatchEvent(new Event('local-gallery-update'));
-};
+// PostgREST filter for one room (legacy rows without room_id belong to the default room)
+const roomFilterFor = (roomId: string) =>
+  roomId === DEFAULT_ROOM ? `room_id.is.null,room_id.eq.${DEFAULT_ROOM}` : `room_id.eq.${roomId}`;
 
 // Helper to convert base64 to Blob
 const base64ToBlob = (base64: string, mimeType: string = 'image/jpeg') => {
@@ -142,275 +242,540 @@ const base64ToBlob = (base64: string, mimeType: string = 'image/jpeg') => {
   return new Blob([ab], { type: mimeType });
 };
 
+// Object names stay .jpg whatever the format (the content type is set from the data), so deletes can find them
+const storagePathsFor = (id: string) => [`public/${id}.jpg`, `public/${thumbnailImageId(id)}.jpg`];
+
 /**
- * 1. Save Local Backup (Hybrid Persistence)
- * 2. Upload to Storage (with Fallback)
- * 3. Insert Row to DB
+ * Upload image to Storage (with Base64 fallback) and return the URL to store
  */
-export const uploadAndSavePhoto = async (base64Image: string, photoMetadata: Omit<PhotoData, 'imageUrl' | 'timestamp'>) => {
-  // 1. Construct Full Photo Data
-  const fullPhotoData: PhotoData = {
-    ...photoMetadata,
-    imageUrl: base64Image, // Initially use base64 for local instant speed
-    timestamp: Date.now()
-  };
-
-  // 2. SAVE LOCAL BACKUP IMMEDIATELY
-  saveLocalBackup(fullPhotoData);
+export const uploadPhotoImage = async (id: string, base64Image: string): Promise<string> => {
+  const filename = `${id}.jpg`;
+  const blob = base64ToBlob(base64Image, dataUrlMimeType(base64Image));
 
   try {
-    // A. Upload Image to Storage
-    const filename = `${photoMetadata.id}.jpg`;
-    const blob = base64ToBlob(base64Image, 'image/jpeg');
-    let finalImageUrl = '';
+    const { error: uploadError } = await supabase.storage
+      .from('retro-uploads')
+      .upload(`public/${filename}`, blob, { upsert: true });
 
-    try {
-      const { error: uploadError } = await supabase.storage
-        .from('retro-uploads')
-        .upload(`public/${filename}`, blob, { upsert: true });
-
-      if (uploadError) throw uploadError;
-
-      const { data } = supabase.storage
-        .from('retro-uploads')
-        .getPublicUrl(`public/${filename}`);
-        
-      finalImageUrl = data.publicUrl;
-      
-    } catch (storageError: any) {
-      console.warn("Supabase Storage upload failed (using Base64 fallback):", storageError.message);
-      finalImageUrl = base64Image.startsWith('data:') ? base64Image : `data:image/jpeg;base64,${base64Image}`;
-    }
+    if (uploadError) throw uploadError;
 
-    if (finalImageUrl.startsWith('http')) {
-        const current = getLocalPhotos();
-        const index = current.findIndex(p => p.id === photoMetadata.id);
-        if (index !== -1) {
-            current[index].imageUrl = finalImageUrl;
-            localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(current));
-        }
-    }
+    const { data } = supabase.storage
+      .from('retro-uploads')
+      .getPublicUrl(`public/${filename}`);
 
-    // B. Insert into 'photos' table
-    const { error: dbError } = await supabase
-      .from('photos')
-      .insert([
-        {
-          id: photoMetadata.id,
-          image_url: finalImageUrl,
-          caption: photoMetadata.caption,
-          date: photoMetadata.date,
-          rotation: photoMetadata.rotation,
-          z_index: photoMetadata.zIndex,
-          x: photoMetadata.x || 0,
-          y: photoMetadata.y || 0,
-          author_name: photoMetadata.authorName, // Keep for legacy
-          bio: photoMetadata.bio, // NEW FIELD
-          social_handle: photoMetadata.socialHandle
-        }
-      ]);
-
-    if (dbError) {
-      if (dbError.code === '42703' || dbError.message.includes('Could not find the')) {
-         console.warn(`⚠️ SCHEMA MISMATCH: Your table is missing columns. PLEASE RUN THE SQL SETUP SCRIPT!`);
-         // RETRY: Insert ONLY the fields we know usually exist to ensure at least the photo is saved
-         await supabase.from('photos').insert([{
-            id: photoMetadata.id,
-            image_url: finalImageUrl,
-            caption: photoMetadata.caption
-         }]);
-      } else if (dbError.code === '42P01') {
-         console.warn("⚠️ SUPABASE TABLE MISSING: Running in LOCAL ONLY mode. Please run the SQL setup script.");
-      } else {
-         console.error("DB Insert Failed (saved locally):", dbError.message);
+    return data.publicUrl;
+  } catch (storageError: any) {
+    console.warn("Supabase Storage upload failed (using Base64 fallback):", storageError.message);
+    return base64Image.startsWith('data:') ? base64Image : `data:image/jpeg;base64,${base64Image}`;
+  }
+};
+
+/**
+ * 1. Save Local Backup (Hybrid Persistence, IndexedDB)
+ * 2. Insert Row to DB
+ * 3. Mark the backup as synced so it may be evicted when storage runs low
+ */
+export const insertPhotoRow = async (photo: PhotoData) => {
+  // 1. SAVE LOCAL BACKUP IMMEDIATELY
+  await saveLocalPhoto(photo);
+
+  // 2. Insert into 'photos' table
+  const { error: dbError } = await supabase
+    .from('photos')
+    .insert([
+      {
+        id: photo.id,
+        image_url: photo.imageUrl,
+        thumbnail_url: photo.thumbnailUrl,
+        caption: photo.caption,
+        date: photo.date,
+        rotation: photo.rotation,
+        z_index: photo.zIndex,
+        x: photo.x || 0,
+        y: photo.y || 0,
+        author_name: photo.authorName, // Keep for legacy
+        bio: photo.bio, // NEW FIELD
+        social_handle: photo.socialHandle,
+        author_id: photo.authorId,
+        room_id: photo.roomId || DEFAULT_ROOM,
+        status: photo.status || 'approved',
+        filter: photo.filter,
+        layout: photo.layout || 'single',
+        caption_style: photo.captionStyle,
+        caption_language: photo.captionLanguage,
+        alt_text: photo.altText,
+        tags: photo.tags
       }
+    ]);
+
+  if (dbError) {
+    if (dbError.code === '42703' || dbError.message.includes('Could not find the')) {
+       console.warn(`⚠️ SCHEMA MISMATCH: Your table is missing columns. PLEASE RUN THE SQL SETUP SCRIPT!`);
+       if (photo.status && photo.status !== 'approved') {
+          // Without a 'status' column the photo would skip moderation, so keep it local
+          console.warn("⚠️ Photo awaiting review was NOT published (missing 'status' column).");
+          return;
+       }
+       // RETRY: Insert ONLY the fields we know usually exist to ensure at least the photo is saved
+       const { error: retryError } = await supabase.from('photos').insert([{
+          id: photo.id,
+          image_url: photo.imageUrl,
+          caption: photo.caption
+       }]);
+       if (retryError) return;
+    } else if (dbError.code === '42P01') {
+       console.warn("⚠️ SUPABASE TABLE MISSING: Running in LOCAL ONLY mode. Please run the SQL setup script.");
+       return;
+    } else if (dbError.code === '23505') {
+       // Duplicate id: an earlier attempt went through but its response was lost (outbox retry)
+    } else {
+       console.error("DB Insert Failed (saved locally):", dbError.message);
+       throw dbError;
     }
-
-    return finalImageUrl;
-  } catch (error) {
-    console.error("Upload/Save process failed (preserved locally):", error);
-    return base64Image;
   }
+
+  // 3. The cloud has it now
+  await markLocalPhotosSynced([photo.id]);
 };
 
 /**
- * Update photo details (Bio, Social, Caption)
+ * Update photo details (Bio, Social, Caption, moderation status).
+ * Throws on network/server errors so the caller can retry, and PermissionDeniedError when RLS refuses
+ * the change (retrying won't help). Schema problems are only logged.
  */
 export const updatePhoto = async (id: string, updates: Partial<PhotoData>) => {
   // Update Local Backup first
-  const current = getLocalPhotos();
-  const index = current.findIndex(p => p.id === id);
-  if (index !== -1) {
-      current[index] = { ...current[index], ...updates };
-      localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(current));
-      window.dispatchEvent(new Event('local-gallery-update'));
-  }
+  await updateLocalPhoto(id, updates);
 
   // Update Cloud
-  try {
-      const dbUpdates: any = {};
-      if (updates.caption !== undefined) dbUpdates.caption = updates.caption;
-      if (updates.authorName !== undefined) dbUpdates.author_name = updates.authorName;
-      if (updates.bio !== undefined) dbUpdates.bio = updates.bio; // NEW FIELD
-      if (updates.socialHandle !== undefined) dbUpdates.social_handle = updates.socialHandle;
-
-      // If nothing to update on DB, return
-      if (Object.keys(dbUpdates).length === 0) return;
-
-      const { error } = await supabase.from('photos').update(dbUpdates).eq('id', id);
-      
-      if (error) {
-          if (error.code === '42703' || error.message.includes('column')) {
-              console.warn("⚠️ UPDATE FAILED: Database is missing 'bio' or 'social_handle'.");
-              console.warn("👉 ACTION REQUIRED: Run the SQL script at the top of services/supabase.ts in your Supabase Dashboard.");
-          } else if (error.code === '42501') {
-              console.warn("⚠️ UPDATE FAILED: Permission denied. Check RLS policies (Public update).");
-          } else {
-             console.error("Error updating photo:", error.message);
-          }
+  const dbUpdates: any = {};
+  if (updates.caption !== undefined) dbUpdates.caption = updates.caption;
+  if (updates.authorName !== undefined) dbUpdates.author_name = updates.authorName;
+  if (updates.bio !== undefined) dbUpdates.bio = updates.bio; // NEW FIELD
+  if (updates.socialHandle !== undefined) dbUpdates.social_handle = updates.socialHandle;
+  if (updates.status !== undefined) dbUpdates.status = updates.status;
+  if (updates.captionStyle !== undefined) dbUpdates.caption_style = updates.captionStyle;
+  if (updates.captionLanguage !== undefined) dbUpdates.caption_language = updates.captionLanguage;
+  if (updates.captionOffline !== undefined) dbUpdates.caption_offline = updates.captionOffline;
+  if (updates.altText !== undefined) dbUpdates.alt_text = updates.altText;
+  if (updates.tags !== undefined) dbUpdates.tags = updates.tags;
+
+  // If nothing to update on DB, return
+  if (Object.keys(dbUpdates).length === 0) return;
+
+  // Make sure the request carries this device's session so RLS can check authorship
+  await getAuthorId();
+
+  // Status changes are a moderator's job; everything else is an author edit
+  const client = updates.status !== undefined ? await moderationClient() : supabase;
+  const { data, error } = await client.from('photos').update(dbUpdates).eq('id', id).select('id');
+  
+  if (error) {
+      if (error.code === '42703' || error.message.includes('column')) {
+          console.warn("⚠️ UPDATE FAILED: Database is missing 'bio' or 'social_handle'.");
+          console.warn("👉 ACTION REQUIRED: Run the SQL script at the top of services/supabase.ts in your Supabase Dashboard.");
+      } else if (error.code === '42501') {
+          throw new PermissionDeniedError("Permission denied. Check RLS policies (Author update).");
+      } else {
+          console.error("Error updating photo:", error.message);
+          throw error;
       }
-  } catch (e: any) {
-      console.error("Update exception:", e.message || e);
+  } else if (data && data.length === 0) {
+      // RLS silently filters rows this session is not allowed to touch
+      throw new PermissionDeniedError("Only the photo's author (or an admin account) can change it.");
   }
 };
 
 /**
- * Delete photo from DB and Storage
+ * Delete photo from DB and Storage. Throws if the server refuses (e.g. not an admin account).
  */
 export const deletePhoto = async (id: string) => {
-  deleteLocalPhoto(id);
-  try {
-    const { error } = await supabase.from('photos').delete().eq('id', id);
-    if (error) throw error;
-    // Attempt storage delete (fire and forget)
-    supabase.storage.from('retro-uploads').remove([`public/${id}.jpg`]);
-  } catch (error) {
-    console.warn("Cloud delete failed", error);
-  }
+  const client = await moderationClient();
+  const { data, error } = await client.from('photos').delete().eq('id', id).select('id');
+  if (error) throw error;
+  // RLS silently skips rows this session may not delete
+  if (!data || data.length === 0) throw new PermissionDeniedError("Photo not deleted. Only admin accounts can delete.");
+
+  // Attempt storage delete (fire and forget)
+  client.storage.from('retro-uploads').remove(storagePathsFor(id));
+  // The local backup goes only once the server copy is gone, so a failed delete loses nothing
+  await deleteLocalPhoto(id);
 };
 
 /**
- * WIPE EVERYTHING (Reset Gallery)
+ * WIPE EVERYTHING in a room (Reset Event). Throws if any row could not be deleted.
  */
-export const clearAllPhotos = async () => {
-  localStorage.removeItem(LOCAL_STORAGE_KEY);
-  window.dispatchEvent(new Event('local-gallery-update'));
-
-  try {
-    const { data: photos, error: fetchError } = await supabase.from('photos').select('id');
-    if (fetchError) throw fetchError;
-
-    if (photos && photos.length > 0) {
-        const ids = photos.map(p => p.id);
-        const storagePaths = ids.map(id => `public/${id}.jpg`);
-
-        // We use loops or smaller batches if many, but for now single bulk delete
-        const { error: deleteError } = await supabase.from('photos').delete().in('id', ids);
-        if (deleteError) console.warn("Failed to delete rows:", deleteError.message);
+export const clearAllPhotos = async (roomId: string = DEFAULT_ROOM) => {
+  const client = await moderationClient();
+  const { data: photos, error: fetchError } = await client.from('photos').select('id').or(roomFilterFor(roomId));
+  if (fetchError) throw fetchError;
+
+  if (photos && photos.length > 0) {
+      const ids = photos.map(p => p.id);
+      const storagePaths = ids.flatMap(storagePathsFor);
+
+      // We use loops or smaller batches if many, but for now single bulk delete
+      const { data: deleted, error: deleteError } = await client.from('photos').delete().in('id', ids).select('id');
+      if (deleteError) throw deleteError;
+      if (!deleted || deleted.length < ids.length) {
+          throw new PermissionDeniedError(`Only ${deleted?.length || 0} of ${ids.length} photos deleted. Only admin accounts can delete.`);
+      }
 
-        if (storagePaths.length > 0) {
-            await supabase.storage.from('retro-uploads').remove(storagePaths);
-        }
-    }
-  } catch (e: any) {
-      console.error("Clear gallery failed:", e.message);
+      if (storagePaths.length > 0) {
+          await client.storage.from('retro-uploads').remove(storagePaths);
+      }
   }
+  await clearLocalRoom(roomId);
 };
 
+// Same content (a refetched row that nobody edited)
+const isSamePhoto = (a: PhotoData, b: PhotoData) => JSON.stringify(a) === JSON.stringify(b);
+
+// Numbers the realtime topics, one per subscription
+let channelCount = 0;
+
 /**
- * Hybrid Subscription: LocalStorage + Supabase Realtime + Polling
+ * Hybrid Subscription: LocalStorage + Supabase Realtime + delta sync (scoped to one room).
+ * Polling only runs while the realtime channel is not SUBSCRIBED.
  */
-export const useRealtimePhotos = (onPhotosUpdated: (photos: PhotoData[]) => void) => {
-  let currentPhotos: PhotoData[] = getLocalPhotos();
+export const useRealtimePhotos = (onPhotosUpdated: (photos: PhotoData[]) => void, options: GallerySubscribeOptions = {}, roomId: string = DEFAULT_ROOM) => {
+  let currentPhotos: PhotoData[] = [];
+
+  let connectionState: GalleryConnectionState | null = null;
+  const setConnectionState = (state: GalleryConnectionState) => {
+    if (state === connectionState) return;
+    connectionState = state;
+    options.onConnectionChange?.(state);
+  };
+  setConnectionState('connecting');
   
+  // Adds photos we haven't seen yet; photos already on the wall win (edits arrive via applyChanges)
   const update = (newPhotos: PhotoData[]) => {
-    const combined = [...newPhotos, ...currentPhotos];
+    const inRoom = newPhotos.filter(p => isInRoom(p, roomId));
+    const combined = filterForViewer([...inRoom, ...currentPhotos], options);
     const unique = Array.from(new Map(combined.map(item => [item.id, item])).values());
-    unique.sort((a, b) => b.timestamp - a.timestamp);
     
-    if (unique.length !== currentPhotos.length || JSON.stringify(unique) !== JSON.stringify(currentPhotos)) {
+    if (unique.length !== currentPhotos.length) {
+        unique.sort((a, b) => b.timestamp - a.timestamp);
         currentPhotos = unique;
         onPhotosUpdated(currentPhotos);
     }
   };
 
   onPhotosUpdated(currentPhotos);
+  // This device's own backup shows up first (and keeps the wall usable offline)
+  loadLocalPhotos(roomId).then(update);
 
   const mapDBToPhotoData = (row: DBPhoto): PhotoData => ({
     id: row.id,
     imageUrl: row.image_url,
+    thumbnailUrl: row.thumbnail_url || undefined,
     caption: row.caption || "",
     authorName: row.author_name || "",
     bio: row.bio || row.author_name || "", // Use bio, fallback to author_name
     socialHandle: row.social_handle || "",
+    authorId: row.author_id || undefined,
     date: row.date || new Date().toLocaleDateString(),
     rotation: Number(row.rotation) || 0,
     zIndex: Number(row.z_index) || 1,
     x: Number(row.x) || 0,
     y: Number(row.y) || 0,
+    status: row.status || 'approved',
+    roomId: row.room_id || DEFAULT_ROOM,
+    filter: row.filter || undefined,
+    layout: row.layout || 'single',
+    captionStyle: row.caption_style || undefined,
+    captionLanguage: row.caption_language || undefined,
+    captionOffline: row.caption_offline || undefined,
+    altText: row.alt_text || undefined,
+    tags: row.tags || undefined,
     timestamp: new Date(row.created_at).getTime()
   });
 
+  // Ids the server has returned (local-only backups are never dropped by a refetch)
+  const cloudIds = new Set<string>();
+
+  // Keyset cursor: the oldest (created_at, id) loaded so far. id breaks ties between equal timestamps.
+  let cursor: { createdAt: string; id: string } | null = null;
+  let hasMore = true;
+
+  // High-water mark for delta sync: newest updated_at (or created_at on old schemas) seen so far
+  let lastSeenAt: string | null = null;
+  let supportsDeltaSync = true;
+
+  const advanceCursor = (rows: DBPhoto[]) => {
+    const oldest = rows[rows.length - 1];
+    if (!oldest) return;
+    if (!cursor || oldest.created_at < cursor.createdAt || (oldest.created_at === cursor.createdAt && oldest.id < cursor.id)) {
+        cursor = { createdAt: oldest.created_at, id: oldest.id };
+    }
+  };
+
+  const markSeen = (rows: DBPhoto[]) => {
+    for (const row of rows) {
+        const seenAt = row.updated_at || row.created_at;
+        if (seenAt && (!lastSeenAt || new Date(seenAt) > new Date(lastSeenAt))) lastSeenAt = seenAt;
+    }
+  };
+
+  // Inserts, edits and moderation changes for single rows (realtime payloads and delta fetches)
+  const applyChanges = (rows: DBPhoto[]) => {
+    markSeen(rows);
+    rows.forEach(row => cloudIds.add(row.id));
+    let next = currentPhotos;
+    for (const row of rows) {
+        const photo = mapDBToPhotoData(row);
+        if (!isInRoom(photo, roomId)) continue;
+        const isKnown = next.some(p => p.id === photo.id);
+        if (!options.includeUnapproved && !isPubliclyVisible(photo)) {
+            // Hidden or rejected by a moderator
+            if (isKnown) next = next.filter(p => p.id !== photo.id);
+        } else if (isKnown) {
+            // Unchanged rows (e.g. a refetched page) must not trigger a re-render
+            if (next.some(p => p.id === photo.id && !isSamePhoto(p, photo))) {
+                next = next.map(p => p.id === photo.id ? photo : p);
+            }
+        } else if (!cursor || row.created_at >= cursor.createdAt) {
+            // New (or just approved) photo; older ones arrive with their page via loadMore
+            next = [...next, photo];
+        }
+    }
+    if (next !== currentPhotos) {
+        next.sort((a, b) => b.timestamp - a.timestamp);
+        currentPhotos = next;
+        onPhotosUpdated([...currentPhotos]);
+    }
+  };
+
+  const roomQuery = () => supabase
+    .from('photos')
+    .select('*')
+    .or(roomFilterFor(roomId));
+
+  const pageQuery = () => {
+    let request = roomQuery();
+
+    if (!options.includeUnapproved) {
+        // Legacy rows have no status and count as approved
+        request = request.or('status.is.null,status.eq.approved');
+    }
+
+    return request
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(PAGE_SIZE);
+  };
+
+  // Newest page (initial load); older pages stay merged in currentPhotos
   const fetchCloud = async () => {
     try {
-        const { data, error } = await supabase
-        .from('photos')
-        .select('*')
-        .order('created_at', { ascending: false })
-        .limit(50);
+        const { data, error } = await pageQuery();
 
         if (!error && data) {
-        const cloudPhotos = data.map(mapDBToPhotoData);
-        update(cloudPhotos);
+        const rows = data as DBPhoto[];
+        // Backed-up photos the cloud already has (including ones migrated from the old backup)
+        markLocalPhotosSynced(rows.map(row => row.id));
+        if (!cursor) {
+            advanceCursor(rows);
+            hasMore = rows.length === PAGE_SIZE;
+            markSeen(rows);
+            rows.forEach(row => cloudIds.add(row.id));
+            update(rows.map(mapDBToPhotoData));
+        } else {
+            refreshNewestPage(rows);
+        }
         }
     } catch (e) { }
   };
 
+  /**
+   * Full refetch of the newest page (no delta sync): apply edits and moderation changes, and drop
+   * photos the server no longer returns for that window (hidden, rejected or deleted elsewhere)
+   */
+  const refreshNewestPage = (rows: DBPhoto[]) => {
+    applyChanges(rows);
+    const fetchedIds = new Set(rows.map(row => row.id));
+    const oldest = rows[rows.length - 1];
+    // A short page covers everything down to the cursor; a full one only down to its oldest row
+    const windowStart = rows.length === PAGE_SIZE && oldest ? new Date(oldest.created_at).getTime() : -Infinity;
+    const vanished = currentPhotos.filter(p => cloudIds.has(p.id) && !fetchedIds.has(p.id) && p.timestamp >= windowStart);
+    if (vanished.length === 0) return;
+    currentPhotos = currentPhotos.filter(p => !vanished.includes(p));
+    vanished.forEach(p => cloudIds.delete(p.id));
+    onPhotosUpdated([...currentPhotos]);
+  };
+
+  /**
+   * Fetch only rows changed since lastSeenAt. Resolves to true when something changed.
+   * Deletes leave no row behind, so they are only picked up over realtime.
+   */
+  const syncChanges = async (): Promise<boolean> => {
+    if (!lastSeenAt || !supportsDeltaSync) {
+        const before = currentPhotos;
+        await fetchCloud();
+        return currentPhotos !== before;
+    }
+    const { data, error } = await roomQuery()
+    .gt('updated_at', lastSeenAt)
+    .order('updated_at', { ascending: true })
+    .limit(PAGE_SIZE);
+
+    if (error) {
+        if (error.code === '42703') {
+            console.warn("⚠️ DELTA SYNC DISABLED: 'updated_at' column missing. Run the SQL setup script.");
+            supportsDeltaSync = false;
+            return syncChanges();
+        }
+        throw error;
+    }
+    const rows = (data || []) as DBPhoto[];
+    applyChanges(rows);
+    return rows.length > 0;
+  };
+
+  // Next page older than the cursor (infinite scroll)
+  const loadMore = async (): Promise<boolean> => {
+    if (!hasMore) return false;
+    if (!cursor) {
+        await fetchCloud();
+        return hasMore;
+    }
+    try {
+        const { createdAt, id } = cursor;
+        const { data, error } = await pageQuery()
+        .or(`created_at.lt."${createdAt}",and(created_at.eq."${createdAt}",id.lt.${id})`);
+
+        if (error) throw error;
+        const rows = (data || []) as DBPhoto[];
+        advanceCursor(rows);
+        hasMore = rows.length === PAGE_SIZE;
+        // No markSeen here: an old photo edited recently would move lastSeenAt past
+        // changes to loaded photos that delta sync hasn't fetched yet
+        rows.forEach(row => cloudIds.add(row.id));
+        update(rows.map(mapDBToPhotoData));
+    } catch (e: any) {
+        console.warn("Loading older photos failed:", e.message || e);
+    }
+    return hasMore;
+  };
+
+  const poller = createBackoffPoller({
+    baseMs: POLL_BASE_MS,
+    maxMs: POLL_MAX_MS,
+    run: async () => {
+        try {
+            const changed = await syncChanges();
+            setConnectionState('polling');
+            return changed;
+        } catch (e) {
+            setConnectionState('offline');
+            throw e;
+        }
+    }
+  });
+
   fetchCloud();
-  // Poll every 2 seconds for consistency
-  const pollInterval = setInterval(fetchCloud, 2000);
 
+  let isChannelLive = false;
+  // removeChannel() reports CLOSED; that must not restart polling after unsubscribe
+  let isClosed = false;
+
+  const roomFilter = `room_id=eq.${roomId}`;
+
+  // supabase.channel() hands back an existing channel for a topic that's already joined, so every
+  // subscription (e.g. the wall and the admin console) needs its own topic
   const channel = supabase
-    .channel('public:photos')
+    .channel(`public:photos:${roomId}:${++channelCount}`)
     .on(
       'postgres_changes',
-      { event: '*', schema: 'public', table: 'photos' },
+      { event: 'INSERT', schema: 'public', table: 'photos', filter: roomFilter },
       (payload) => {
-        if (payload.eventType === 'INSERT') {
-            update([mapDBToPhotoData(payload.new as DBPhoto)]);
-        } else if (payload.eventType === 'DELETE') {
-            const deletedId = payload.old.id;
-            currentPhotos = currentPhotos.filter(p => p.id !== deletedId);
-            onPhotosUpdated([...currentPhotos]);
-            deleteLocalPhoto(deletedId);
-        } else if (payload.eventType === 'UPDATE') {
-            const updatedPhoto = mapDBToPhotoData(payload.new as DBPhoto);
-            currentPhotos = currentPhotos.map(p => p.id === updatedPhoto.id ? updatedPhoto : p);
-            onPhotosUpdated([...currentPhotos]);
-        }
+        markSeen([payload.new as DBPhoto]);
+        update([mapDBToPhotoData(payload.new as DBPhoto)]);
+      }
+    )
+    .on(
+      // DELETE events can't be filtered by column; unknown ids are simply ignored
+      'postgres_changes',
+      { event: 'DELETE', schema: 'public', table: 'photos' },
+      (payload) => {
+        const deletedId = payload.old.id;
+        if (!currentPhotos.some(p => p.id === deletedId)) return;
+        currentPhotos = currentPhotos.filter(p => p.id !== deletedId);
+        onPhotosUpdated([...currentPhotos]);
+        deleteLocalPhoto(deletedId);
+      }
+    )
+    .on(
+      'postgres_changes',
+      { event: 'UPDATE', schema: 'public', table: 'photos', filter: roomFilter },
+      (payload) => {
+        applyChanges([payload.new as DBPhoto]);
       }
     )
     .subscribe((status) => {
-       if (status === 'SUBSCRIBED') {
-           // console.log("Realtime connected");
+       if (isClosed) return;
+       isChannelLive = status === 'SUBSCRIBED';
+       if (isChannelLive) {
+           poller.stop();
+           setConnectionState('live');
+           // Catch up on anything that changed while we were disconnected
+           syncChanges().catch(() => {});
+       } else {
+           // CHANNEL_ERROR / TIMED_OUT / CLOSED: fall back to polling until realtime comes back
+           setConnectionState(navigator.onLine ? 'polling' : 'offline');
+           poller.start();
        }
     });
 
   const handleLocalUpdate = () => {
-      const local = getLocalPhotos();
-      update(local);
+      loadLocalPhotos(roomId).then(update);
   };
 
-  window.addEventListener('local-gallery-update', handleLocalUpdate);
-  window.addEventListener('storage', handleLocalUpdate);
+  const handleOffline = () => setConnectionState('offline');
+  const handleOnline = () => {
+      if (connectionState === 'offline') setConnectionState(isChannelLive ? 'live' : 'polling');
+      syncChanges().catch(() => {});
+  };
+
+  window.addEventListener(LOCAL_PHOTOS_EVENT, handleLocalUpdate);
+  window.addEventListener('offline', handleOffline);
+  window.addEventListener('online', handleOnline);
 
   return {
     unsubscribe: () => {
-        clearInterval(pollInterval);
+        isClosed = true;
+        poller.stop();
         supabase.removeChannel(channel);
-        window.removeEventListener('local-gallery-update', handleLocalUpdate);
-        window.removeEventListener('storage', handleLocalUpdate);
+        window.removeEventListener(LOCAL_PHOTOS_EVENT, handleLocalUpdate);
+        window.removeEventListener('offline', handleOffline);
+        window.removeEventListener('online', handleOnline);
+    },
+    refresh: async () => {
+        try {
+            await syncChanges();
+        } catch (e) { }
     },
-    refresh: fetchCloud
+    loadMore
+  };
+};
+
+/**
+ * Supabase implementation of the GalleryBackend interface, bound to one room
+ */
+export const createSupabaseBackend = (roomId: string = DEFAULT_ROOM): GalleryBackend => {
+  const subscriptions = createSubscriptionRegistry();
+
+  return {
+    kind: 'supabase',
+    roomId,
+    getAuthorId,
+    uploadImage: uploadPhotoImage,
+    insertPhoto: (photo) => insertPhotoRow({ ...photo, roomId }),
+    updatePhoto,
+    deletePhoto,
+    clearAll: () => clearAllPhotos(roomId),
+    subscribe: (onPhotosUpdated, options) => subscriptions.track(useRealtimePhotos(onPhotosUpdated, options, roomId)),
+    refresh: subscriptions.refreshAll
   };
 };
@@ -1,20 +1,62 @@
 
+export type PhotoStatus = 'pending' | 'approved' | 'hidden' | 'rejected';
+
+export type FilmFilterId = 'none' | 'classic' | 'portra' | 'trix' | 'expired';
+
+// single: one square shot; strip: 4-frame photobooth strip (1:4)
+export type PhotoLayout = 'single' | 'strip';
+
+// Caption persona and output language chosen by the photographer
+export type CaptionStyle = 'nostalgic' | 'funny' | 'poetic' | 'haiku' | 'event';
+export type CaptionLanguage = 'en' | 'ne' | 'hi' | 'es' | 'fr' | 'de' | 'ja' | 'zh';
+
+export interface CaptionSettings {
+  style: CaptionStyle;
+  language: CaptionLanguage;
+}
+
 export interface PhotoData {
   id: string; // The UUID
   imageUrl: string; 
+  thumbnailUrl?: string; // Small copy for the grid / film strip (missing on older photos)
   caption: string;
   authorName?: string; // User's name (Deprecated in favor of bio, kept for legacy)
   bio?: string; // User's bio
   socialHandle?: string; // User's social/comment
+  authorId?: string; // Anonymous session/device id of the photographer (only they can edit)
+  roomId?: string; // Event / room the photo was posted to (missing means the default room)
   date: string;
   rotation: number;
   zIndex: number;
   x?: number; // Random positioning
   y?: number;
   timestamp: number; // Created time in ms
+  status?: PhotoStatus; // Moderation state; missing means approved (legacy rows)
+  filter?: FilmFilterId; // Film stock baked into the image at capture (missing on older photos)
+  layout?: PhotoLayout; // Missing means single
+  captionStyle?: CaptionStyle; // Settings the caption was written with (so it can be regenerated the same way)
+  captionLanguage?: CaptionLanguage;
+  captionOffline?: boolean; // Caption came from the offline phrase bank because the provider failed
+  altText?: string; // Descriptive alt text (the caption is too short and cute for screen readers)
+  tags?: string[]; // Lowercase keywords, shown as filter chips on the pinboard
+  localOnly?: boolean; // Never uploaded (e.g. held back by moderation), only visible on this device
+  imageBlob?: Blob; // Image bytes from the on-device store (rendered through an object URL, never uploaded)
 }
 
+// How the camera produced an image (recorded on the photo)
+export type CaptureDetails = Pick<PhotoData, 'filter' | 'layout'>;
+
 export interface GeminiResponse {
   caption: string;
   date: string;
+  altText?: string; // Plain description for screen readers
+  tags?: string[]; // A few lowercase keywords for filtering
+}
+
+export type ModerationStatus = 'allowed' | 'blocked' | 'needs-review';
+
+export interface ModerationVerdict {
+  status: ModerationStatus;
+  scores: Record<string, number>; // nsfwjs class name -> probability (0..1)
+  reason?: string; // Human readable explanation, shown to the user when not allowed
 }
@@ -1,7 +1,15 @@
 import path from 'path';
+import { createHash, randomBytes } from 'crypto';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// "salt:sha256(salt + passcode)", so the staff passcode itself never ships in the bundle
+const hashPasscode = (passcode: string | undefined) => {
+    if (!passcode) return '';
+    const salt = randomBytes(16).toString('hex');
+    return `${salt}:${createHash('sha256').update(salt + passcode).digest('hex')}`;
+};
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -12,7 +20,18 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.CAPTION_PROVIDER': JSON.stringify(env.CAPTION_PROVIDER),
+        'process.env.GALLERY_BACKEND': JSON.stringify(env.GALLERY_BACKEND),
+        'process.env.MODERATION_POLICY': JSON.stringify(env.MODERATION_POLICY),
+        'process.env.IMAGE_MAX_EDGE': JSON.stringify(env.IMAGE_MAX_EDGE),
+        'process.env.ADMIN_PASSCODE_HASH': JSON.stringify(hashPasscode(env.ADMIN_PASSCODE)),
+        'process.env.FIREBASE_API_KEY': JSON.stringify(env.FIREBASE_API_KEY),
+        'process.env.FIREBASE_AUTH_DOMAIN': JSON.stringify(env.FIREBASE_AUTH_DOMAIN),
+        'process.env.FIREBASE_PROJECT_ID': JSON.stringify(env.FIREBASE_PROJECT_ID),
+        'process.env.FIREBASE_STORAGE_BUCKET': JSON.stringify(env.FIREBASE_STORAGE_BUCKET),
+        'process.env.FIREBASE_MESSAGING_SENDER_ID': JSON.stringify(env.FIREBASE_MESSAGING_SENDER_ID),
+        'process.env.FIREBASE_APP_ID': JSON.stringify(env.FIREBASE_APP_ID)
       },
       resolve: {
         alias: {